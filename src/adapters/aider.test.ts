@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync, statSync, existsSync } from 'fs';
+
+vi.mock('../utils.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils.js')>(),
+  runCommand: vi.fn(),
+  commandExists: vi.fn().mockResolvedValue(true),
+}));
+
+import { runCommand } from '../utils.js';
+import { AiderAdapter, parseAiderOutput } from './aider.js';
+
+const MESSAGE_OUTPUT = [
+  'Aider v0.86.1',
+  'Main model: anthropic/claude-sonnet-4-20250514 with diff edit format',
+  'Weak model: anthropic/claude-3-5-haiku-20241022',
+  'Git repo: .git with 42 files',
+  'Repo-map: using 4096 tokens, auto refresh',
+  '',
+  'The parser crashes on empty input. I added a guard.',
+  '',
+  'src/parse.py',
+  '```',
+  '<<<<<<< SEARCH',
+  'def parse(text):',
+  '=======',
+  'def parse(text):',
+  '    if not text:',
+  '        return []',
+  '>>>>>>> REPLACE',
+  '```',
+  '',
+  'Tokens: 5.1k sent, 212 received. Cost: $0.02 message, $0.02 session.',
+  'Applied edit to src/parse.py',
+  'Applied edit to tests/test_parse.py',
+  'Commit 9a1f2c3 fix: handle empty input in parse()',
+  'You can use /undo to undo and discard each aider commit.',
+].join('\n');
+
+describe('parseAiderOutput', () => {
+  it('captures the commit and edited files', () => {
+    const parsed = parseAiderOutput(MESSAGE_OUTPUT);
+    expect(parsed.changes).toEqual({
+      commit: '9a1f2c3',
+      files: ['src/parse.py', 'tests/test_parse.py'],
+    });
+  });
+
+  it('strips status lines but keeps the answer and edit blocks', () => {
+    const { response } = parseAiderOutput(MESSAGE_OUTPUT);
+    expect(response.startsWith('The parser crashes on empty input.')).toBe(true);
+    expect(response).toContain('<<<<<<< SEARCH');
+    expect(response).not.toContain('Aider v');
+    expect(response).not.toContain('Tokens:');
+    expect(response).not.toContain('Applied edit');
+    expect(response).not.toContain('Commit 9a1f2c3');
+  });
+
+  it('uses the last commit when aider commits dirty files first', () => {
+    const parsed = parseAiderOutput('Commit 1111111 chore: dirty files\nApplied edit to a.py\nCommit 2222222 feat: add a');
+    expect(parsed.changes?.commit).toBe('2222222');
+  });
+
+  it('reads the model, tokens and cost', () => {
+    const parsed = parseAiderOutput(MESSAGE_OUTPUT);
+    expect(parsed.model).toBe('anthropic/claude-sonnet-4-20250514');
+    expect(parsed.usage).toEqual({ inputTokens: 5100, outputTokens: 212, cachedInputTokens: 0 });
+    expect(parsed.costUsd).toBe(0.02);
+  });
+
+  it('sums several Tokens lines, including cache hits', () => {
+    const parsed = parseAiderOutput([
+      'Tokens: 12k sent, 8.5k cache hit, 300 received. Cost: $0.01 message, $0.01 session.',
+      'Tokens: 1.2M sent, 1.5k received. Cost: $0.50 message, $0.51 session.',
+    ].join('\n'));
+    expect(parsed.usage).toEqual({ inputTokens: 1_212_000, outputTokens: 1800, cachedInputTokens: 8500 });
+    expect(parsed.costUsd).toBeCloseTo(0.51);
+  });
+
+  it('returns null changes for a plain answer', () => {
+    const parsed = parseAiderOutput('Aider v0.86.1\n\nUse a dict here.\n\nTokens: 1k sent, 20 received.');
+    expect(parsed.response).toBe('Use a dict here.');
+    expect(parsed.changes).toBeNull();
+  });
+
+  it('reports edits without a commit (--no-auto-commits)', () => {
+    const parsed = parseAiderOutput('Done.\nApplied edit to a.py');
+    expect(parsed.changes).toEqual({ commit: undefined, files: ['a.py'] });
+  });
+});
+
+describe('AiderAdapter', () => {
+  let adapter: AiderAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new AiderAdapter();
+  });
+
+  describe('properties', () => {
+    it('has correct name', () => {
+      expect(adapter.name).toBe('aider');
+    });
+
+    it('has correct display name', () => {
+      expect(adapter.displayName).toBe('Aider');
+    });
+
+    it('has a color defined', () => {
+      expect(adapter.color).toContain('\x1b[');
+    });
+
+    it('matches the chat prompt', () => {
+      expect(adapter.promptPattern.test('> ')).toBe(true);
+      expect(adapter.promptPattern.test('architect> ')).toBe(true);
+      expect(adapter.promptPattern.test('Some response text')).toBe(false);
+    });
+  });
+
+  describe('getCommand', () => {
+    it('uses message mode with plain output', () => {
+      const cmd = adapter.getCommand('hello', { continueSession: false });
+      expect(cmd[0]).toBe('aider');
+      expect(cmd).toContain('--no-pretty');
+      expect(cmd).toContain('--yes-always');
+      expect(cmd.slice(-2)).toEqual(['--message', 'hello']);
+    });
+
+    it('passes the model to print mode and the PTY', () => {
+      expect(adapter.getCommand('hello', { model: 'sonnet' })).toContain('sonnet');
+      expect(adapter.getPersistentArgs({ model: 'sonnet' })).toEqual(['--model', 'sonnet']);
+    });
+
+    it('puts the role in front of the first message of a session', () => {
+      const role = 'You are the implementer.';
+      expect(adapter.getCommand('hello', { role }).slice(-2)).toEqual(['--message', 'You are the implementer.\n\nhello']);
+
+      adapter.setHasSession(true);
+      expect(adapter.getCommand('hello', { role }).slice(-2)).toEqual(['--message', 'hello']);
+    });
+
+    it('still sends the role when the session was started in interactive mode', () => {
+      const role = 'You are the implementer.';
+      adapter.markInteractiveSessionStarted();
+
+      const cmd = adapter.getCommand('hello', { role });
+      expect(cmd).toContain('--restore-chat-history');
+      expect(cmd.slice(-2)).toEqual(['--message', 'You are the implementer.\n\nhello']);
+    });
+
+    it('starts in edit mode and only previews changes when read-only', () => {
+      expect(adapter.defaultPermissionProfile).toBe('edit');
+      const cmd = adapter.getCommand('hello', { permissionArgs: adapter.permissionProfiles.readonly });
+      expect(cmd).toContain('--dry-run');
+    });
+
+    it('restores chat history once a session exists', () => {
+      expect(adapter.getCommand('hello')).not.toContain('--restore-chat-history');
+      adapter.setHasSession(true);
+      expect(adapter.getCommand('hello')).toContain('--restore-chat-history');
+    });
+
+    it('skips history when continueSession is false', () => {
+      adapter.setHasSession(true);
+      expect(adapter.getCommand('hello', { continueSession: false })).not.toContain('--restore-chat-history');
+    });
+  });
+
+  describe('send', () => {
+    it('returns the answer and exposes the changes', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: MESSAGE_OUTPUT, stderr: '', exitCode: 0 });
+
+      const response = await adapter.send('fix the parser', { cwd: '/project' });
+
+      expect(response.text).toContain('I added a guard.');
+      expect(adapter.hasSession()).toBe(true);
+      expect(adapter.getLastChanges()).toEqual({
+        commit: '9a1f2c3',
+        files: ['src/parse.py', 'tests/test_parse.py'],
+      });
+      expect(vi.mocked(runCommand).mock.calls[0][2]).toEqual({ cwd: '/project' });
+    });
+
+    it('clears changes from the previous send', async () => {
+      vi.mocked(runCommand).mockResolvedValueOnce({ stdout: MESSAGE_OUTPUT, stderr: '', exitCode: 0 });
+      await adapter.send('fix the parser');
+
+      vi.mocked(runCommand).mockResolvedValueOnce({ stdout: 'Looks good.', stderr: '', exitCode: 0 });
+      await adapter.send('anything else?');
+
+      expect(adapter.getLastChanges()).toBeNull();
+    });
+
+    it('passes a short prompt with --message', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: 'Done.', stderr: '', exitCode: 0 });
+
+      await adapter.send('fix the parser');
+
+      const args = vi.mocked(runCommand).mock.calls[0][1];
+      expect(args.slice(-2)).toEqual(['--message', 'fix the parser']);
+    });
+
+    it('passes a very large prompt in a private temporary file', async () => {
+      const prompt = 'const answer = compute(42);\n'.repeat(40_000);
+      let received: { content: string; mode: number; path: string } | undefined;
+      vi.mocked(runCommand).mockImplementation(async (_command, args) => {
+        const path = args[args.indexOf('--message-file') + 1];
+        received = { content: readFileSync(path, 'utf8'), mode: statSync(path).mode & 0o777, path };
+        return { stdout: 'Done.', stderr: '', exitCode: 0 };
+      });
+
+      await adapter.send(prompt);
+
+      const args = vi.mocked(runCommand).mock.calls[0][1];
+      expect(args).not.toContain('--message');
+      expect(args.join(' ')).not.toContain('compute(42)');
+      expect(received?.content).toBe(prompt);
+      expect(received?.mode).toBe(0o600);
+      expect(existsSync(received?.path ?? '')).toBe(false);
+    });
+
+    it('shows the prompt file in the command of a very large prompt', () => {
+      const cmd = adapter.getCommand('const answer = compute(42);\n'.repeat(40_000));
+
+      expect(cmd.slice(-2)).toEqual(['--message-file', '<prompt file>']);
+      expect(cmd.join(' ')).not.toContain('compute(42)');
+    });
+
+    it('throws on a non-zero exit code', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: '', stderr: 'No API key', exitCode: 1 });
+
+      await expect(adapter.send('hello')).rejects.toThrow('No API key');
+      expect(adapter.getLastChanges()).toBeNull();
+    });
+  });
+
+  describe('cleanResponse', () => {
+    it('strips ANSI codes, prompts and status lines', () => {
+      const raw = '\x1b[32m> fix it\x1b[0m\nFixed the bug.\nTokens: 1k sent, 10 received.\nApplied edit to a.py\n> ';
+      expect(adapter.cleanResponse(raw)).toBe('Fixed the bug.');
+    });
+
+    it('handles empty input', () => {
+      expect(adapter.cleanResponse('')).toBe('');
+    });
+  });
+
+  describe('session management', () => {
+    it('resets context clears session and changes', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: MESSAGE_OUTPUT, stderr: '', exitCode: 0 });
+      await adapter.send('fix the parser');
+
+      adapter.resetContext();
+
+      expect(adapter.hasSession()).toBe(false);
+      expect(adapter.getLastChanges()).toBeNull();
+    });
+
+    it('restores chat history after an interactive session', () => {
+      adapter.markInteractiveSessionStarted();
+      expect(adapter.getPersistentArgs()).toEqual(['--restore-chat-history']);
+      expect(adapter.getInteractiveCommand()).toEqual(['aider', '--restore-chat-history']);
+    });
+
+    it('round-trips session state', () => {
+      adapter.restoreSessionState({ hasSession: true, interactiveSessionStarted: true });
+      expect(adapter.getSessionState()).toEqual({ hasSession: true, interactiveSessionStarted: true });
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import { ToolAdapter, SendOptions, SendResult, TokenUsage, AdapterSessionState, ToolChanges } from './base.js';
+import { runCommand, commandExists, prependRole, shouldSendViaStdin, withPromptFile } from '../utils.js';
+
+/**
+ * Parsed result of aider's message mode output
+ */
+export interface AiderOutput {
+  /** The model's answer with aider's status lines removed */
+  response: string;
+  /** Commit and edited files, or null if aider didn't change anything */
+  changes: ToolChanges | null;
+  /** Token counts from the "Tokens:" lines */
+  usage?: TokenUsage;
+  /** Cost of this message in USD */
+  costUsd?: number;
+  /** Main model from the startup banner */
+  model?: string;
+}
+
+// "Applied edit to src/utils.py"
+const APPLIED_EDIT_PATTERN = /^Applied edit to (.+?)\s*$/gm;
+// "Commit 9a1f2c3 fix: handle empty input"
+const COMMIT_PATTERN = /^Commit ([0-9a-f]{7,40})\b.*$/gm;
+// "Tokens: 5.1k sent, 1.2k cache hit, 212 received. Cost: $0.02 message, $0.02 session."
+const TOKENS_PATTERN = /^Tokens: (.+)$/gm;
+// "Main model: anthropic/claude-sonnet-4-20250514 with diff edit format"
+const MODEL_PATTERN = /^(?:Main )?[Mm]odel: (\S+)/m;
+
+/**
+ * Parse aider's abbreviated counts: "212", "5.1k", "1.2M"
+ */
+function parseTokenCount(value: string): number {
+  const match = value.match(/^([\d.]+)([kKmM]?)$/);
+  if (!match) return 0;
+  const scale = match[2].toLowerCase() === 'k' ? 1_000 : match[2].toLowerCase() === 'm' ? 1_000_000 : 1;
+  return Math.round(parseFloat(match[1]) * scale);
+}
+
+/**
+ * Sum the "Tokens:" lines (aider prints one per model call)
+ */
+function parseAiderUsage(stdout: string): { usage?: TokenUsage; costUsd?: number } {
+  let usage: TokenUsage | undefined;
+  let costUsd: number | undefined;
+
+  for (const match of stdout.matchAll(TOKENS_PATTERN)) {
+    const counts = (label: string) => {
+      const found = match[1].match(new RegExp(`([\\d.]+[kKmM]?) ${label}`));
+      return found ? parseTokenCount(found[1]) : 0;
+    };
+    usage = {
+      inputTokens: (usage?.inputTokens ?? 0) + counts('sent'),
+      outputTokens: (usage?.outputTokens ?? 0) + counts('received'),
+      cachedInputTokens: (usage?.cachedInputTokens ?? 0) + counts('cache hit'),
+    };
+
+    const cost = match[1].match(/Cost: \$([\d.]+) message/);
+    if (cost) {
+      costUsd = (costUsd ?? 0) + parseFloat(cost[1]);
+    }
+  }
+
+  return { usage, costUsd };
+}
+
+/**
+ * Remove aider's own status lines (banner, token usage, git notices, prompts)
+ */
+function stripAiderNoise(text: string): string {
+  let output = text;
+
+  // Startup banner
+  output = output.replace(/^Aider v[\d.]+.*$/gm, '');
+  output = output.replace(/^(Main|Weak|Editor) model:.*$/gm, '');
+  output = output.replace(/^Model:.*$/gm, '');
+  output = output.replace(/^Git repo:.*$/gm, '');
+  output = output.replace(/^Repo-map:.*$/gm, '');
+  output = output.replace(/^Added .+ to the chat\.?\s*$/gm, '');
+  output = output.replace(/^Restored previous conversation history\.?\s*$/gm, '');
+  output = output.replace(/^Use \/help.*$/gm, '');
+  output = output.replace(/^https:\/\/aider\.chat\/.*$/gm, '');
+  output = output.replace(/^Warning:.*$/gm, '');
+
+  // Auto-answered confirmations (--yes-always echoes them)
+  output = output.replace(/^.*\(Y\)es\/\(N\)o.*$/gm, '');
+
+  // Token usage and cost
+  output = output.replace(/^Tokens: .*$/gm, '');
+
+  // Edit and commit notices - captured separately as ToolChanges
+  output = output.replace(APPLIED_EDIT_PATTERN, '');
+  output = output.replace(COMMIT_PATTERN, '');
+  output = output.replace(/^You can use \/undo to undo.*$/gm, '');
+
+  return output;
+}
+
+/**
+ * Parse aider's `--message` output into the answer and the changes it made
+ */
+export function parseAiderOutput(stdout: string): AiderOutput {
+  const files: string[] = [];
+  for (const match of stdout.matchAll(APPLIED_EDIT_PATTERN)) {
+    if (!files.includes(match[1])) {
+      files.push(match[1]);
+    }
+  }
+
+  // Aider may commit pre-existing dirty files first - the last commit holds the edits
+  const commits = [...stdout.matchAll(COMMIT_PATTERN)].map(match => match[1]);
+  const commit = commits.length > 0 ? commits[commits.length - 1] : undefined;
+
+  let response = stripAiderNoise(stdout);
+  response = response.replace(/\n{3,}/g, '\n\n');
+
+  return {
+    response: response.trim(),
+    changes: commit || files.length > 0 ? { commit, files } : null,
+    ...parseAiderUsage(stdout),
+    model: stdout.match(MODEL_PATTERN)?.[1],
+  };
+}
+
+/**
+ * Adapter for Aider
+ *
+ * Aider supports:
+ * - Non-interactive mode via --message (process one prompt, then exit)
+ * - Plain output via --no-pretty / --no-stream
+ * - Session continuation via --restore-chat-history (per-project chat history file)
+ * - Auto-commits of its edits, reported as "Commit <hash> <message>"
+ */
+export class AiderAdapter implements ToolAdapter {
+  readonly name = 'aider';
+  readonly displayName = 'Aider';
+  readonly installCommand = 'python -m pip install aider-install && aider-install';
+  readonly color = '\x1b[93m'; // brightYellow
+
+  // Aider shows "> " when ready for input (or "<mode>> " e.g. "ask> ", "architect> ")
+  readonly promptPattern = /^[\w-]*>\s*$/m;
+
+  // Fallback: if no output for 3 seconds, assume response complete
+  // Aider pauses while applying edits and committing
+  readonly idleTimeout = 3000;
+
+  // Aider builds the repo map on startup (~4 seconds for first launch)
+  readonly startupDelay = 4000;
+
+  // Editing is aider's workflow, so print mode starts in edit mode - readonly only shows the changes
+  readonly permissionProfiles = {
+    readonly: ['--dry-run'],
+    edit: [],
+  };
+  readonly defaultPermissionProfile = 'edit';
+
+  private hasActiveSession = false;
+  private hasStartedInteractiveSession = false;
+  private lastChanges: ToolChanges | null = null;
+
+  async isAvailable(): Promise<boolean> {
+    return commandExists('aider');
+  }
+
+  private shouldResume(options?: SendOptions): boolean {
+    return options?.continueSession !== false &&
+      (this.hasActiveSession || this.hasStartedInteractiveSession);
+  }
+
+  // Aider has no system prompt option - the role goes in front of the first print-mode
+  // message of a session. One started in /i never got it.
+  private buildPrompt(prompt: string, options?: SendOptions): string {
+    const hasRole = options?.continueSession !== false && this.hasActiveSession;
+    return hasRole ? prompt : prependRole(prompt, options?.role);
+  }
+
+  getCommand(prompt: string, options?: SendOptions): string[] {
+    return ['aider', ...this.buildArgs(this.buildPrompt(prompt, options), options)];
+  }
+
+  /**
+   * Arguments for a request. Aider reads a message from a file, not from stdin, so large
+   * prompts go through a temporary one - until send() has created it, its path is a placeholder.
+   */
+  private buildArgs(fullPrompt: string, options?: SendOptions, promptFile: string = '<prompt file>'): string[] {
+    const messageArgs = shouldSendViaStdin(fullPrompt) ? ['--message-file', promptFile] : ['--message', fullPrompt];
+    return [...this.getOptionArgs(options), ...messageArgs];
+  }
+
+  /**
+   * Everything but the message
+   */
+  private getOptionArgs(options?: SendOptions): string[] {
+    const args: string[] = [];
+
+    // Plain, non-streamed output for clean response extraction
+    args.push('--no-pretty', '--no-stream', '--no-fancy-input');
+    args.push('--no-check-update', '--no-show-release-notes');
+
+    // Message mode can't answer confirmations - accept them so edits are applied and committed.
+    // Unlike the other tools, aider's print mode is not read-only: that's its whole workflow,
+    // and every change lands as a commit that can be reviewed or reverted with /undo.
+    args.push('--yes-always');
+    args.push(...(options?.permissionArgs ?? []));
+
+    if (options?.model) {
+      args.push('--model', options.model);
+    }
+
+    if (this.shouldResume(options)) {
+      args.push('--restore-chat-history');
+    }
+
+    return args;
+  }
+
+  getInteractiveCommand(options?: SendOptions): string[] {
+    const modelArgs = options?.model ? ['--model', options.model] : [];
+    return this.shouldResume(options)
+      ? ['aider', ...modelArgs, '--restore-chat-history']
+      : ['aider', ...modelArgs];
+  }
+
+  getPersistentArgs(options?: SendOptions): string[] {
+    const modelArgs = options?.model ? ['--model', options.model] : [];
+    // Resume previous session if we have one from regular mode OR
+    // if we've already started an interactive session (for respawns after exit)
+    if (this.hasActiveSession || this.hasStartedInteractiveSession) {
+      return [...modelArgs, '--restore-chat-history'];
+    }
+    return modelArgs;
+  }
+
+  cleanResponse(rawOutput: string): string {
+    let output = rawOutput;
+
+    // Remove all ANSI escape sequences first
+    output = output.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '');
+    output = output.replace(/\x1b\[\??\d+[hl]/g, '');
+    output = output.replace(/\x1b\[\d* ?q/g, '');
+    output = output.replace(/\x1b\][^\x07]*\x07/g, ''); // OSC sequences
+    output = output.replace(/\r/g, '');
+
+    // Remove spinner frames
+    output = output.replace(/[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏░█]/g, '');
+    output = output.replace(/^\s*Waiting for .*$/gm, '');
+
+    // Remove box drawing characters
+    output = output.replace(/[╭╮╰╯│─┌┐└┘├┤┬┴┼║═╔╗╚╝╠╣╦╩╬]/g, '');
+
+    output = stripAiderNoise(output);
+
+    // Remove the prompt line and echoed user prompts ("> question", "ask> question")
+    output = output.replace(/^[\w-]*>.*$/gm, '');
+
+    // Final cleanup
+    output = output.replace(/\n{3,}/g, '\n\n');
+    output = output.replace(/^\s+$/gm, '');
+
+    return output.trim();
+  }
+
+  async send(prompt: string, options?: SendOptions): Promise<SendResult> {
+    const fullPrompt = this.buildPrompt(prompt, options);
+    const startedAt = Date.now();
+
+    this.lastChanges = null;
+
+    // Use non-interactive runCommand to avoid messing with stdin
+    const run = (promptFile?: string) => runCommand('aider', this.buildArgs(fullPrompt, options, promptFile), {
+      cwd: options?.cwd || process.cwd(),
+      timeout: options?.timeout,
+      signal: options?.signal,
+    });
+    const result = shouldSendViaStdin(fullPrompt) ? await withPromptFile(fullPrompt, run) : await run();
+
+    if (result.exitCode !== 0) {
+      const errorMsg = result.stderr.trim() || result.stdout.trim() || 'Unknown error';
+      throw new Error(`Aider exited with code ${result.exitCode}: ${errorMsg}`);
+    }
+
+    // Mark that we now have an active session
+    this.hasActiveSession = true;
+
+    const parsed = parseAiderOutput(result.stdout);
+    this.lastChanges = parsed.changes;
+    return {
+      text: parsed.response,
+      raw: result.stdout,
+      usage: parsed.usage,
+      costUsd: parsed.costUsd,
+      model: parsed.model,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /** Commit and files from the last send, for /forward and the reviewing tool */
+  getLastChanges(): ToolChanges | null {
+    return this.lastChanges;
+  }
+
+  resetContext(): void {
+    this.hasActiveSession = false;
+    this.hasStartedInteractiveSession = false;
+    this.lastChanges = null;
+  }
+
+  /** Mark that an interactive session has been started (for PTY respawns) */
+  markInteractiveSessionStarted(): void {
+    this.hasStartedInteractiveSession = true;
+  }
+
+  /** Check if there's an active session */
+  hasSession(): boolean {
+    return this.hasActiveSession;
+  }
+
+  /** Mark that a session exists (for loading from persisted state) */
+  setHasSession(value: boolean): void {
+    this.hasActiveSession = value;
+  }
+
+  /** Export session state so the aider chat can be restored after aic restarts */
+  getSessionState(): AdapterSessionState {
+    return {
+      hasSession: this.hasActiveSession,
+      interactiveSessionStarted: this.hasStartedInteractiveSession,
+    };
+  }
+
+  /** Restore a saved session - subsequent calls will restore the chat history */
+  restoreSessionState(state: AdapterSessionState): void {
+    this.hasActiveSession = state.hasSession;
+    this.hasStartedInteractiveSession = state.interactiveSessionStarted ?? false;
+  }
+}
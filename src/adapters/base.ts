@@ -6,12 +6,100 @@ export interface SendOptions {
   cwd?: string;
   /** Whether to continue the previous session (default: true) */
   continueSession?: boolean;
-  /** Timeout in milliseconds */
+  /** Timeout in milliseconds - the tool is killed if it takes longer */
   timeout?: number;
+  /** Cancels the request (the tool process is killed) when aborted */
+  signal?: AbortSignal;
+  /** Model to use (default: the tool's own default) */
+  model?: string;
+  /** Standing instructions for the tool, e.g. "You are the reviewer" (from /role or config) */
+  role?: string;
+  /** Arguments granting the print-mode request its permissions (from the active permission profile) */
+  permissionArgs?: string[];
+  /** Receives the response text as the tool generates it (tools that can stream) */
+  onChunk?: (text: string) => void;
   /** Keep stdin open after command (for interactive sessions) */
   keepStdinOpen?: boolean;
 }
 
+/**
+ * Tokens a tool reports for one request
+ */
+export interface TokenUsage {
+  /** All input tokens, including cached ones */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens read from the prompt cache */
+  cachedInputTokens?: number;
+}
+
+/**
+ * A tool the model called while answering (file read, shell command, ...)
+ */
+export interface ToolCall {
+  /** Tool name as the CLI reports it, e.g. "Read" or "read_file" */
+  name: string;
+  /** Arguments of the call, if reported */
+  input?: Record<string, unknown>;
+}
+
+/**
+ * What a tool returned for one prompt
+ */
+export interface SendResult {
+  /** The answer text */
+  text: string;
+  /** The tool's unparsed output, for debugging */
+  raw?: string;
+  /** The tool's own session/conversation ID, if it reports one */
+  sessionId?: string;
+  /** Token counts, if the tool reports them */
+  usage?: TokenUsage;
+  /** Cost in USD, if the tool reports it */
+  costUsd?: number;
+  /** Model that answered, if the tool reports it */
+  model?: string;
+  /** Tools the model called, if the output reports them */
+  toolCalls?: ToolCall[];
+  /** Problems that didn't stop the answer (e.g. a denied permission) */
+  warnings?: string[];
+  /** How long the request took in ms */
+  durationMs: number;
+}
+
+/**
+ * Serializable per-adapter session state, saved with aic sessions so a
+ * tool's conversation can be resumed after aic restarts
+ */
+export interface AdapterSessionState {
+  /** Whether the tool has an active session (see hasSession) */
+  hasSession: boolean;
+  /** Tool-specific session identifier, if the tool uses one */
+  sessionId?: string | null;
+  /** Whether an interactive session was started (for PTY respawns) */
+  interactiveSessionStarted?: boolean;
+  /** Conversation kept by the adapter itself, for tools with no server-side session */
+  messages?: ChatMessage[];
+}
+
+/**
+ * A message in an OpenAI-style chat conversation
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Files a tool changed while answering (e.g. an aider auto-commit)
+ */
+export interface ToolChanges {
+  /** Commit created for the changes, if the tool commits them */
+  commit?: string;
+  /** Changed file paths, relative to the working directory */
+  files: string[];
+}
+
 export interface ToolAdapter {
   /** Unique name identifier for the tool */
   readonly name: string;
@@ -19,9 +107,18 @@ export interface ToolAdapter {
   /** Display name for the tool */
   readonly displayName: string;
 
+  /** Executable to run, if it differs from the name (optional, defaults to name) */
+  readonly command?: string;
+
+  /** How to install the tool, shown when it isn't found (optional) */
+  readonly installCommand?: string;
+
   /** ANSI color code for the tool (e.g., '\x1b[96m' for bright cyan) */
   readonly color: string;
 
+  /** How interactive mode works: a PTY running the tool (default) or aic's built-in chat REPL */
+  readonly interactiveMode?: 'pty' | 'repl';
+
   /** Regex pattern to detect when tool is showing its input prompt (ready for input) */
   readonly promptPattern: RegExp;
 
@@ -31,11 +128,17 @@ export interface ToolAdapter {
   /** Time in ms to wait for tool to start before sending commands (first launch) */
   readonly startupDelay: number;
 
+  /** Print-mode arguments for each built-in permission profile, e.g. readonly and edit (optional) */
+  readonly permissionProfiles?: Record<string, string[]>;
+
+  /** Profile print mode starts in (optional, defaults to readonly) */
+  readonly defaultPermissionProfile?: string;
+
   /** Check if the tool is installed and available */
   isAvailable(): Promise<boolean>;
 
-  /** Send a prompt to the tool and get a response */
-  send(prompt: string, options?: SendOptions): Promise<string>;
+  /** Send a prompt to the tool and get its answer, with usage details where available */
+  send(prompt: string, options?: SendOptions): Promise<SendResult>;
 
   /** Reset conversation context */
   resetContext(): void;
@@ -47,7 +150,7 @@ export interface ToolAdapter {
   getInteractiveCommand(options?: SendOptions): string[];
 
   /** Get arguments for starting a persistent PTY session */
-  getPersistentArgs(): string[];
+  getPersistentArgs(options?: SendOptions): string[];
 
   /** Clean response output - remove UI noise like spinners, prompts, status lines */
   cleanResponse(rawOutput: string): string;
@@ -60,6 +163,15 @@ export interface ToolAdapter {
 
   /** Mark that an interactive session has been started (optional, for PTY respawns) */
   markInteractiveSessionStarted?(): void;
+
+  /** Export session state for persistence (optional, defaults to hasSession only) */
+  getSessionState?(): AdapterSessionState;
+
+  /** Restore session state saved by getSessionState (optional, defaults to setHasSession) */
+  restoreSessionState?(state: AdapterSessionState): void;
+
+  /** Files changed by the last send, if any (optional, for tools that edit and commit) */
+  getLastChanges?(): ToolChanges | null;
 }
 
 /**
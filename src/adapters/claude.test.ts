@@ -1,11 +1,28 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { ClaudeAdapter } from './claude.js';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../utils.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils.js')>(),
+  runCommand: vi.fn(),
+}));
+
+import { runCommand } from '../utils.js';
+import { ClaudeAdapter, parseClaudeStreamLine, parseClaudeResult, isMissingSessionError } from './claude.js';
+import { useFakeCli, LARGE_PROMPT } from './fake-cli.test-helper.js';
+
+const SESSION_ID = '1f3e0c1a-0000-4000-8000-000000000000';
+
+function jsonResult(sessionId: string, result = 'Hello!') {
+  return { stdout: JSON.stringify({ type: 'result', result, session_id: sessionId }), stderr: '', exitCode: 0 };
+}
+
+const MISSING_SESSION = { stdout: '', stderr: `No conversation found with session ID: ${SESSION_ID}`, exitCode: 1 };
 
 describe('ClaudeAdapter', () => {
   let adapter: ClaudeAdapter;
 
   beforeEach(() => {
     adapter = new ClaudeAdapter();
+    vi.mocked(runCommand).mockReset();
   });
 
   describe('properties', () => {
@@ -41,12 +58,37 @@ describe('ClaudeAdapter', () => {
       expect(cmd).toContain('hello');
     });
 
+    it('passes the chosen model', () => {
+      const cmd = adapter.getCommand('hello', { continueSession: false, model: 'haiku' });
+      expect(cmd).toEqual(['claude', '-p', '--output-format', 'json', '--model', 'haiku', 'hello']);
+    });
+
+    it('appends the role to the system prompt of every request', () => {
+      const cmd = adapter.getCommand('hello', { continueSession: false, role: 'You are the implementer.' });
+      expect(cmd).toEqual(['claude', '-p', '--output-format', 'json', '--append-system-prompt', 'You are the implementer.', 'hello']);
+    });
+
+    it('adds the permission profile arguments in print mode', () => {
+      const permissionArgs = adapter.permissionProfiles.edit;
+      const cmd = adapter.getCommand('fix it', { continueSession: false, permissionArgs });
+      expect(cmd).toEqual(['claude', '-p', '--output-format', 'json', '--permission-mode', 'acceptEdits', 'fix it']);
+      expect(adapter.getCommand('/status', { continueSession: false, permissionArgs })).toEqual(['claude']);
+    });
+
     it('includes --output-format json for regular prompts', () => {
       const cmd = adapter.getCommand('hello', { continueSession: false });
       expect(cmd).toContain('--output-format');
       expect(cmd).toContain('json');
     });
 
+    it('uses stream-json when the caller wants chunks', () => {
+      const cmd = adapter.getCommand('hello', { continueSession: false, onChunk: () => {} });
+      expect(cmd).toContain('stream-json');
+      expect(cmd).toContain('--verbose');
+      expect(cmd).toContain('--include-partial-messages');
+      expect(cmd).not.toContain('json');
+    });
+
     it('skips -p flag for slash commands', () => {
       const cmd = adapter.getCommand('/status', { continueSession: false });
       expect(cmd).not.toContain('-p');
@@ -139,6 +181,86 @@ describe('ClaudeAdapter', () => {
       const sessionId2 = adapter.getSessionId();
       expect(sessionId2).not.toBe(sessionId1);
     });
+
+    it('exports no session ID before the session is created', () => {
+      expect(adapter.getSessionState()).toEqual({ hasSession: false, sessionId: null });
+    });
+
+    it('exports session ID once Claude has confirmed the session', async () => {
+      vi.mocked(runCommand).mockResolvedValue(jsonResult(SESSION_ID));
+      await adapter.send('hello');
+      expect(adapter.getSessionState()).toEqual({ hasSession: true, sessionId: SESSION_ID });
+    });
+
+    it('keeps creating the session until a request succeeds', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: '', stderr: 'Network error', exitCode: 1 });
+      await expect(adapter.send('hello')).rejects.toThrow('Network error');
+
+      const cmd = adapter.getCommand('hello again');
+      expect(cmd).toContain('--session-id');
+      expect(cmd).not.toContain('--resume');
+      expect(adapter.getSessionState().sessionId).toBeNull();
+    });
+
+    it('resumes the session ID Claude reported', async () => {
+      vi.mocked(runCommand).mockResolvedValue(jsonResult(SESSION_ID));
+      await adapter.send('hello');
+
+      const cmd = adapter.getCommand('and now?');
+      expect(cmd).toContain('--resume');
+      expect(cmd).toContain(SESSION_ID);
+    });
+
+    it('does not adopt the session of a one-off request', async () => {
+      vi.mocked(runCommand).mockResolvedValue(jsonResult(SESSION_ID));
+      await adapter.send('hello', { continueSession: false });
+      expect(adapter.getSessionState().sessionId).toBeNull();
+    });
+
+    it('resumes a restored session ID', () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: 'saved-uuid' });
+
+      const cmd = adapter.getCommand('hello');
+
+      expect(adapter.hasSession()).toBe(true);
+      expect(cmd).toContain('--resume');
+      expect(cmd).toContain('saved-uuid');
+      expect(cmd).not.toContain('--session-id');
+    });
+  });
+
+  describe('send', () => {
+    it('starts a new session when the resumed one is gone', async () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: SESSION_ID });
+      vi.mocked(runCommand)
+        .mockResolvedValueOnce(MISSING_SESSION)
+        .mockResolvedValueOnce(jsonResult('2a4b6c8d-0000-4000-8000-000000000000'));
+
+      const response = await adapter.send('hello');
+
+      expect(response.text).toBe('Hello!');
+      expect(response.warnings?.[0]).toContain(`Claude session ${SESSION_ID} could not be resumed`);
+      const retryArgs = vi.mocked(runCommand).mock.calls[1][1];
+      expect(retryArgs).toContain('--session-id');
+      expect(retryArgs).not.toContain(SESSION_ID);
+      expect(adapter.getSessionState().sessionId).toBe('2a4b6c8d-0000-4000-8000-000000000000');
+    });
+
+    it('does not retry other errors', async () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: SESSION_ID });
+      vi.mocked(runCommand).mockResolvedValue({ stdout: '', stderr: 'Rate limited', exitCode: 1 });
+
+      await expect(adapter.send('hello')).rejects.toThrow('Rate limited');
+      expect(runCommand).toHaveBeenCalledTimes(1);
+      expect(adapter.getSessionState().sessionId).toBe(SESSION_ID);
+    });
+
+    it('reports a missing session of a new session as an error', async () => {
+      vi.mocked(runCommand).mockResolvedValue(MISSING_SESSION);
+
+      await expect(adapter.send('hello')).rejects.toThrow('No conversation found');
+      expect(runCommand).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('getInteractiveCommand', () => {
@@ -158,5 +280,128 @@ describe('ClaudeAdapter', () => {
       const args = adapter.getPersistentArgs();
       expect(args.length).toBeGreaterThan(0);
     });
+
+    it('starts the PTY with the chosen model', () => {
+      const args = adapter.getPersistentArgs({ model: 'opus' });
+      expect(args.slice(0, 3)).toEqual(['--model', 'opus', '--session-id']);
+    });
+
+    it('starts the PTY with the role', () => {
+      const args = adapter.getPersistentArgs({ role: 'You are the implementer.' });
+      expect(args.slice(0, 3)).toEqual(['--append-system-prompt', 'You are the implementer.', '--session-id']);
+    });
+  });
+});
+
+describe('parseClaudeStreamLine', () => {
+  it('returns text deltas', () => {
+    const line = JSON.stringify({
+      type: 'stream_event',
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+    });
+    expect(parseClaudeStreamLine(line)).toEqual({ text: 'Hel' });
+  });
+
+  it('marks the start of a text block', () => {
+    const line = JSON.stringify({
+      type: 'stream_event',
+      event: { type: 'content_block_start', index: 1, content_block: { type: 'text', text: '' } },
+    });
+    expect(parseClaudeStreamLine(line)).toEqual({ blockStart: true });
+  });
+
+  it('returns the final result', () => {
+    const line = JSON.stringify({ type: 'result', subtype: 'success', is_error: false, result: 'Hello!' });
+    expect(parseClaudeStreamLine(line)).toEqual({ result: { text: 'Hello!', isError: false } });
+  });
+
+  it('returns the tools called in an assistant message', () => {
+    const line = JSON.stringify({
+      type: 'assistant',
+      message: {
+        content: [
+          { type: 'text', text: 'Let me look.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'src/a.ts' } },
+        ],
+      },
+    });
+    expect(parseClaudeStreamLine(line)).toEqual({ toolCalls: [{ name: 'Read', input: { file_path: 'src/a.ts' } }] });
+  });
+
+  it('ignores other events and non-JSON lines', () => {
+    expect(parseClaudeStreamLine(JSON.stringify({ type: 'system', subtype: 'init' }))).toBeNull();
+    expect(parseClaudeStreamLine(JSON.stringify({
+      type: 'stream_event',
+      event: { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{' } },
+    }))).toBeNull();
+    expect(parseClaudeStreamLine('not json')).toBeNull();
+  });
+});
+
+describe('isMissingSessionError', () => {
+  it('recognizes the error Claude reports for an unknown session', () => {
+    expect(isMissingSessionError(new Error(`Claude Code exited with code 1: ${MISSING_SESSION.stderr}`))).toBe(true);
+    expect(isMissingSessionError(new Error('Claude Code exited with code 1: Invalid API key'))).toBe(false);
+  });
+});
+
+describe('parseClaudeResult', () => {
+  it('reads tokens, cost and the answering model', () => {
+    const parsed = parseClaudeResult({
+      type: 'result',
+      result: 'Done.',
+      is_error: false,
+      total_cost_usd: 0.0123,
+      usage: { input_tokens: 10, cache_creation_input_tokens: 200, cache_read_input_tokens: 3000, output_tokens: 150 },
+      modelUsage: {
+        'claude-haiku-4-5': { outputTokens: 20 },
+        'claude-sonnet-4-5': { outputTokens: 150 },
+      },
+    });
+
+    expect(parsed).toEqual({
+      text: 'Done.',
+      isError: false,
+      usage: { inputTokens: 3210, outputTokens: 150, cachedInputTokens: 3000 },
+      costUsd: 0.0123,
+      model: 'claude-sonnet-4-5',
+    });
+  });
+
+  it('reads the session ID and warns about denied permissions', () => {
+    const parsed = parseClaudeResult({
+      result: 'I would change a.ts like this...',
+      session_id: '1f3e0c1a-0000-4000-8000-000000000000',
+      permission_denials: [{ tool_name: 'Edit' }, { tool_name: 'Edit' }, { tool_name: 'Bash' }],
+    });
+    expect(parsed.sessionId).toBe('1f3e0c1a-0000-4000-8000-000000000000');
+    expect(parsed.warnings).toEqual(['Permission denied for Edit, Bash - allow more with /mode edit, or !edit <message> for one message']);
+  });
+
+  it('leaves usage out when Claude does not report it', () => {
+    expect(parseClaudeResult({ result: 'Hi' })).toEqual({ text: 'Hi', isError: false });
+  });
+
+  it('flags errors', () => {
+    expect(parseClaudeResult({ result: 'Credit balance too low', is_error: true }).isError).toBe(true);
+  });
+});
+
+describe('ClaudeAdapter with a fake CLI', () => {
+  const cli = useFakeCli('claude', answer => JSON.stringify({ type: 'result', result: answer, session_id: 'fake-session' }));
+
+  it('passes a short prompt as an argument', async () => {
+    const received = await cli.send(new ClaudeAdapter(), 'What does this do?');
+    expect(received.args).toContain('-p');
+    expect(received.args.at(-1)).toBe('What does this do?');
+    expect(received.stdin).toBe('');
+  });
+
+  it('sends a very large prompt over stdin', async () => {
+    const received = await cli.send(new ClaudeAdapter(), LARGE_PROMPT);
+
+    expect(received.stdin).toBe(LARGE_PROMPT);
+    expect(received.args.some(arg => arg.includes('compute(42)'))).toBe(false);
+    expect(received.args).toContain('-p');
   });
 });
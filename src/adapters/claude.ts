@@ -1,18 +1,175 @@
 import { randomUUID } from 'crypto';
-import { ToolAdapter, SendOptions } from './base.js';
-import { runCommand, commandExists, stripAnsi } from '../utils.js';
+import { ToolAdapter, SendOptions, SendResult, TokenUsage, ToolCall, AdapterSessionState } from './base.js';
+import { runCommand, commandExists, stripAnsi, createLineReader, shouldSendViaStdin } from '../utils.js';
+
+/**
+ * Claude's result object: the whole `--output-format json` output, and the
+ * closing event of stream-json output (fields aic reads)
+ */
+interface ClaudeResultEvent {
+  type?: string;
+  result?: string;
+  is_error?: boolean;
+  session_id?: string;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+  /** Per-model breakdown, keyed by model name */
+  modelUsage?: Record<string, { outputTokens?: number }>;
+  /** Tool uses refused because print mode doesn't grant the permission */
+  permission_denials?: { tool_name?: string }[];
+}
+
+/**
+ * One line of Claude's stream-json output (fields aic reads)
+ */
+interface ClaudeStreamEvent extends ClaudeResultEvent {
+  type: string;
+  event?: {
+    type: string;
+    content_block?: { type: string };
+    delta?: { type: string; text?: string };
+  };
+  /** Complete assistant message (stream-json emits one per model turn) */
+  message?: {
+    content?: { type: string; name?: string; input?: Record<string, unknown> }[];
+  };
+}
+
+/**
+ * The answer and usage details from Claude's result object
+ */
+export interface ClaudeResult {
+  text: string;
+  isError: boolean;
+  sessionId?: string;
+  usage?: TokenUsage;
+  costUsd?: number;
+  model?: string;
+  warnings?: string[];
+}
+
+/**
+ * Read the answer, token counts, cost and model from a result object
+ */
+export function parseClaudeResult(event: ClaudeResultEvent): ClaudeResult {
+  const result: ClaudeResult = {
+    text: event.result ?? '',
+    isError: event.is_error === true,
+  };
+
+  if (event.session_id) {
+    result.sessionId = event.session_id;
+  }
+
+  if (event.usage) {
+    const cacheRead = event.usage.cache_read_input_tokens ?? 0;
+    const cacheWrite = event.usage.cache_creation_input_tokens ?? 0;
+    result.usage = {
+      // Claude counts cached input separately - include it so input totals are comparable across tools
+      inputTokens: (event.usage.input_tokens ?? 0) + cacheRead + cacheWrite,
+      outputTokens: event.usage.output_tokens ?? 0,
+      cachedInputTokens: cacheRead,
+    };
+  }
+  if (typeof event.total_cost_usd === 'number') {
+    result.costUsd = event.total_cost_usd;
+  }
+
+  // Claude may use a small model for housekeeping - the answering model writes the most
+  const models = Object.entries(event.modelUsage ?? {});
+  if (models.length > 0) {
+    models.sort(([, a], [, b]) => (b.outputTokens ?? 0) - (a.outputTokens ?? 0));
+    result.model = models[0][0];
+  }
+
+  // The permission profile didn't allow something Claude tried - point at a wider one
+  const denied = [...new Set((event.permission_denials ?? []).map(denial => denial.tool_name).filter(Boolean))];
+  if (denied.length > 0) {
+    result.warnings = [`Permission denied for ${denied.join(', ')} - allow more with /mode edit, or !edit <message> for one message`];
+  }
+
+  return result;
+}
+
+/**
+ * What one stream-json line contributes to the answer
+ */
+export interface ClaudeStreamUpdate {
+  /** A piece of answer text */
+  text?: string;
+  /** A new text block starts (e.g. after a tool call) */
+  blockStart?: boolean;
+  /** Tools called in a completed assistant message */
+  toolCalls?: ToolCall[];
+  /** The final answer, from the closing result event */
+  result?: ClaudeResult;
+}
+
+/**
+ * Parse a line of `--output-format stream-json --include-partial-messages` output.
+ * Returns null for lines that don't affect the answer (init, tool calls, ...).
+ */
+export function parseClaudeStreamLine(line: string): ClaudeStreamUpdate | null {
+  let event: ClaudeStreamEvent;
+  try {
+    event = JSON.parse(line) as ClaudeStreamEvent;
+  } catch {
+    return null;
+  }
+
+  if (event.type === 'stream_event' && event.event) {
+    if (event.event.type === 'content_block_start' && event.event.content_block?.type === 'text') {
+      return { blockStart: true };
+    }
+    if (event.event.type === 'content_block_delta' && event.event.delta?.type === 'text_delta') {
+      return { text: event.event.delta.text ?? '' };
+    }
+    return null;
+  }
+
+  if (event.type === 'assistant' && event.message?.content) {
+    const toolCalls = event.message.content
+      .filter(block => block.type === 'tool_use' && block.name)
+      .map(block => ({ name: block.name!, input: block.input }));
+    return toolCalls.length > 0 ? { toolCalls } : null;
+  }
+
+  if (event.type === 'result') {
+    return { result: parseClaudeResult(event) };
+  }
+
+  return null;
+}
+
+// What Claude prints when --resume names a session it doesn't have
+const MISSING_SESSION_PATTERN = /No conversation found/i;
+
+/**
+ * Whether a failed request failed because the resumed session doesn't exist
+ * (deleted, created on another machine, or never created because its first request failed)
+ */
+export function isMissingSessionError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return MISSING_SESSION_PATTERN.test(message);
+}
 
 /**
  * Adapter for Claude Code CLI
  *
  * Claude Code supports:
  * - Non-interactive mode via -p/--print flag
- * - Output formats: text, json, stream-json
+ * - Output formats: text, json, stream-json (used when the caller wants chunks as they arrive)
  * - Session continuation via --session-id (isolated from other sessions in same directory)
  */
 export class ClaudeAdapter implements ToolAdapter {
   readonly name = 'claude';
   readonly displayName = 'Claude Code';
+  readonly installCommand = 'npm install -g @anthropic-ai/claude-code';
   readonly color = '\x1b[96m'; // brightCyan
 
   // Claude shows ❯ character when ready for input (with possible trailing chars like tool name)
@@ -26,13 +183,21 @@ export class ClaudeAdapter implements ToolAdapter {
   // Claude starts relatively quickly (~2.5 seconds for first launch)
   readonly startupDelay = 2500;
 
+  // Print mode can't ask for approval, so anything not granted up front is denied
+  readonly permissionProfiles = {
+    readonly: [],
+    edit: ['--permission-mode', 'acceptEdits'],
+  };
+
   private hasActiveSession = false;
 
   // Unique session ID for aic's Claude sessions - prevents collision with
   // other Claude Code sessions running in the same directory
   private sessionId: string | null = null;
 
-  // Track if we've used the session ID at least once (to know whether to use --session-id or --resume)
+  // Whether Claude has confirmed the session exists (to know whether to use --session-id or --resume).
+  // Set from the session_id in Claude's output, so a failed first request doesn't leave a
+  // session ID behind that can't be resumed.
   private sessionCreated = false;
 
   async isAvailable(): Promise<boolean> {
@@ -52,23 +217,42 @@ export class ClaudeAdapter implements ToolAdapter {
 
   /**
    * Get session args for Claude commands.
-   * First call uses --session-id to CREATE the session.
-   * Subsequent calls use --resume to CONTINUE the session (avoids "already in use" errors).
+   * Until Claude confirms the session, --session-id CREATES it.
+   * After that, --resume CONTINUES it (avoids "already in use" errors).
    */
   private getSessionArgs(): string[] {
     const sessionId = this.getOrCreateSessionId();
     if (!this.sessionCreated) {
-      // First call - create the session with this ID
-      // Mark as created immediately so subsequent calls use --resume
-      // (even if this command fails, the session ID is reserved)
-      this.sessionCreated = true;
       return ['--session-id', sessionId];
     } else {
-      // Subsequent calls - resume the existing session
       return ['--resume', sessionId];
     }
   }
 
+  /**
+   * Session args for an interactive session. Its output isn't parsed, so there is no
+   * confirmation - assume it creates the session, and recover in send() if it didn't.
+   */
+  private getInteractiveSessionArgs(): string[] {
+    const args = this.getSessionArgs();
+    this.sessionCreated = true;
+    return args;
+  }
+
+  /**
+   * Remember the session a successful request used. Claude reports the session ID it
+   * actually used - adopt it rather than trusting the one we asked for.
+   */
+  private confirmSession(options: SendOptions | undefined, sessionId: string | undefined): void {
+    this.hasActiveSession = true;
+    // A one-off request (continueSession: false) runs in a throwaway session
+    if (options?.continueSession === false) return;
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+    this.sessionCreated = this.sessionId !== null;
+  }
+
   getCommand(prompt: string, options?: SendOptions): string[] {
     // For slash commands, run without -p to access Claude's internal commands
     const isSlashCommand = prompt.startsWith('/');
@@ -77,10 +261,22 @@ export class ClaudeAdapter implements ToolAdapter {
 
     if (!isSlashCommand) {
       args.push('-p'); // Print mode for regular prompts
-      args.push('--output-format', 'json'); // JSON output for clean response extraction
-      // Note: We intentionally don't enable --tools or --permission-mode here
-      // This makes print mode read-only (no file edits without user consent)
-      // Use /i (interactive mode) for full tool access with approvals
+      if (options?.onChunk) {
+        // One JSON event per line, including partial text (stream-json requires --verbose in print mode)
+        args.push('--output-format', 'stream-json', '--verbose', '--include-partial-messages');
+      } else {
+        args.push('--output-format', 'json'); // JSON output for clean response extraction
+      }
+      // Print mode is read-only unless the permission profile grants more (/mode edit, !edit)
+      args.push(...(options?.permissionArgs ?? []));
+    }
+
+    if (options?.model) {
+      args.push('--model', options.model);
+    }
+    if (options?.role) {
+      // Passed with every request - Claude doesn't keep it with the session
+      args.push('--append-system-prompt', options.role);
     }
 
     // Use session args to isolate and continue aic's sessions
@@ -88,8 +284,9 @@ export class ClaudeAdapter implements ToolAdapter {
       args.push(...this.getSessionArgs());
     }
 
-    // Add the prompt as the last argument (only for non-slash commands in print mode)
-    if (!isSlashCommand) {
+    // Add the prompt as the last argument (only for non-slash commands in print mode).
+    // Large prompts are left out - send() writes them to stdin, which -p reads instead
+    if (!isSlashCommand && !shouldSendViaStdin(prompt)) {
       args.push(prompt);
     }
 
@@ -98,16 +295,24 @@ export class ClaudeAdapter implements ToolAdapter {
 
   getInteractiveCommand(options?: SendOptions): string[] {
     const args: string[] = [];
+    if (options?.model) {
+      args.push('--model', options.model);
+    }
+    if (options?.role) {
+      args.push('--append-system-prompt', options.role);
+    }
     // Use session args to maintain isolated session
     if (options?.continueSession !== false) {
-      args.push(...this.getSessionArgs());
+      args.push(...this.getInteractiveSessionArgs());
     }
     return ['claude', ...args];
   }
 
-  getPersistentArgs(): string[] {
+  getPersistentArgs(options?: SendOptions): string[] {
+    const modelArgs = options?.model ? ['--model', options.model] : [];
+    const roleArgs = options?.role ? ['--append-system-prompt', options.role] : [];
     // Use session args for PTY - will create or resume as appropriate
-    return this.getSessionArgs();
+    return [...modelArgs, ...roleArgs, ...this.getInteractiveSessionArgs()];
   }
 
   cleanResponse(rawOutput: string): string {
@@ -224,44 +429,143 @@ export class ClaudeAdapter implements ToolAdapter {
     return output.trim();
   }
 
-  async send(prompt: string, options?: SendOptions): Promise<string> {
+  async send(prompt: string, options?: SendOptions): Promise<SendResult> {
+    const resuming = options?.continueSession !== false && this.sessionCreated;
+    try {
+      return await this.sendOnce(prompt, options);
+    } catch (error) {
+      if (!resuming || options?.signal?.aborted || !isMissingSessionError(error)) {
+        throw error;
+      }
+
+      // The session is gone - start a new one. aic's history is unaffected, but Claude
+      // won't remember the earlier conversation, so say so.
+      const lostSessionId = this.sessionId;
+      this.resetContext();
+      const result = await this.sendOnce(prompt, options);
+      result.warnings = [
+        `Claude session ${lostSessionId} could not be resumed - started a new one. ` +
+          'aic kept the history, but Claude does not remember the earlier conversation.',
+        ...(result.warnings ?? []),
+      ];
+      return result;
+    }
+  }
+
+  private async sendOnce(prompt: string, options?: SendOptions): Promise<SendResult> {
     // For print mode (-p), use non-interactive runCommand to avoid messing with stdin
     const args = this.getCommand(prompt, options).slice(1); // Remove 'claude' from start
+    const input = !prompt.startsWith('/') && shouldSendViaStdin(prompt) ? prompt : undefined;
+    const startedAt = Date.now();
+
+    if (options?.onChunk && !prompt.startsWith('/')) {
+      return this.sendStreaming(args, input, options, options.onChunk, startedAt);
+    }
 
     const result = await runCommand('claude', args, {
       cwd: options?.cwd || process.cwd(),
+      timeout: options?.timeout,
+      signal: options?.signal,
+      input,
     });
 
+    // Parse the JSON result (errors are reported in it too)
+    let parsed: ClaudeResult | null = null;
+    try {
+      parsed = parseClaudeResult(JSON.parse(result.stdout) as ClaudeResultEvent);
+    } catch {
+      // Not JSON - handled below
+    }
+
+    if (parsed?.isError) {
+      throw new Error(parsed.text || 'Unknown error from Claude');
+    }
     if (result.exitCode !== 0) {
-      // Try to parse error from JSON response
-      try {
-        const errorJson = JSON.parse(result.stdout);
-        if (errorJson.result) {
-          throw new Error(errorJson.result);
-        }
-      } catch {
-        // Fall back to raw error message
-      }
-      const errorMsg = result.stderr.trim() || result.stdout.trim() || 'Unknown error';
+      const errorMsg = parsed?.text || result.stderr.trim() || result.stdout.trim() || 'Unknown error';
       throw new Error(`Claude Code exited with code ${result.exitCode}: ${errorMsg}`);
     }
 
-    // Mark that we now have an active session
-    this.hasActiveSession = true;
+    this.confirmSession(options, parsed?.sessionId);
 
-    // Parse JSON response and extract the result field
-    try {
-      const response = JSON.parse(result.stdout);
-      if (response.is_error) {
-        throw new Error(response.result || 'Unknown error from Claude');
-      }
-      return response.result || '';
-    } catch (parseError) {
+    if (!parsed) {
       // Fallback: if JSON parsing fails, return raw output (for compatibility)
-      return result.stdout.trim();
+      return { text: result.stdout.trim(), raw: result.stdout, durationMs: Date.now() - startedAt };
+    }
+    return this.toSendResult(parsed, result.stdout, startedAt);
+  }
+
+  /**
+   * Run a stream-json request, passing answer text to onChunk as it arrives.
+   * Returns the final result (or the streamed text if the result event is missing).
+   */
+  private async sendStreaming(
+    args: string[],
+    input: string | undefined,
+    options: SendOptions,
+    onChunk: (text: string) => void,
+    startedAt: number
+  ): Promise<SendResult> {
+    let streamed = '';
+    let final = null as ClaudeResult | null;
+    const toolCalls: ToolCall[] = [];
+
+    const reader = createLineReader(line => {
+      const update = parseClaudeStreamLine(line);
+      if (!update) return;
+
+      if (update.blockStart && streamed) {
+        // Separate text blocks the way the final result does
+        streamed += '\n\n';
+        onChunk('\n\n');
+      } else if (update.text) {
+        streamed += update.text;
+        onChunk(update.text);
+      } else if (update.toolCalls) {
+        toolCalls.push(...update.toolCalls);
+      } else if (update.result) {
+        final = update.result;
+      }
+    });
+
+    const result = await runCommand('claude', args, {
+      cwd: options.cwd || process.cwd(),
+      timeout: options.timeout,
+      signal: options.signal,
+      input,
+      onStdout: data => reader.push(data),
+    });
+    reader.flush();
+
+    if (final?.isError) {
+      throw new Error(final.text || 'Unknown error from Claude');
+    }
+    if (result.exitCode !== 0) {
+      const errorMsg = result.stderr.trim() || 'Unknown error';
+      throw new Error(`Claude Code exited with code ${result.exitCode}: ${errorMsg}`);
+    }
+
+    this.confirmSession(options, final?.sessionId);
+
+    const sendResult = this.toSendResult(final ?? { text: streamed.trim(), isError: false }, result.stdout, startedAt);
+    if (toolCalls.length > 0) {
+      sendResult.toolCalls = toolCalls;
     }
+    return sendResult;
   }
-  
+
+  private toSendResult(parsed: ClaudeResult, raw: string, startedAt: number): SendResult {
+    return {
+      text: parsed.text,
+      raw,
+      sessionId: parsed.sessionId,
+      usage: parsed.usage,
+      costUsd: parsed.costUsd,
+      model: parsed.model,
+      warnings: parsed.warnings,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
   resetContext(): void {
     this.hasActiveSession = false;
     // Generate a new session ID on reset to start fresh
@@ -283,4 +587,24 @@ export class ClaudeAdapter implements ToolAdapter {
   getSessionId(): string | null {
     return this.sessionId;
   }
+
+  /** Export session state so the Claude session can be resumed after aic restarts */
+  getSessionState(): AdapterSessionState {
+    return {
+      hasSession: this.hasActiveSession,
+      sessionId: this.sessionCreated ? this.sessionId : null,
+    };
+  }
+
+  /** Restore a saved session - subsequent calls will --resume the saved session ID */
+  restoreSessionState(state: AdapterSessionState): void {
+    this.hasActiveSession = state.hasSession;
+    if (state.sessionId) {
+      this.sessionId = state.sessionId;
+      this.sessionCreated = true;
+    } else {
+      this.sessionId = null;
+      this.sessionCreated = false;
+    }
+  }
 }
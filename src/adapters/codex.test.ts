@@ -0,0 +1,317 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../utils.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils.js')>(),
+  runCommand: vi.fn(),
+  commandExists: vi.fn().mockResolvedValue(true),
+}));
+
+import { runCommand } from '../utils.js';
+import { CodexAdapter, parseCodexOutput } from './codex.js';
+import { useFakeCli, LARGE_PROMPT } from './fake-cli.test-helper.js';
+
+const EXEC_OUTPUT = [
+  '{"type":"thread.started","thread_id":"0199a213-81c0-7800-8aa1-bbab2a035a53"}',
+  '{"type":"turn.started"}',
+  '{"type":"item.completed","item":{"id":"item_0","type":"reasoning","text":"**Checking the repo**"}}',
+  '{"type":"item.completed","item":{"id":"item_1","type":"agent_message","text":"Looking at the files first."}}',
+  '{"type":"item.completed","item":{"id":"item_2","type":"agent_message","text":"The bug is in utils.ts."}}',
+  '{"type":"turn.completed","usage":{"input_tokens":24763,"cached_input_tokens":24448,"output_tokens":122}}',
+].join('\n');
+
+describe('parseCodexOutput', () => {
+  it('returns the last agent message and the thread ID', () => {
+    const parsed = parseCodexOutput(EXEC_OUTPUT);
+    expect(parsed.response).toBe('The bug is in utils.ts.');
+    expect(parsed.threadId).toBe('0199a213-81c0-7800-8aa1-bbab2a035a53');
+    expect(parsed.error).toBeNull();
+  });
+
+  it('reads token usage from turn.completed', () => {
+    expect(parseCodexOutput(EXEC_OUTPUT).usage).toEqual({
+      inputTokens: 24763,
+      outputTokens: 122,
+      cachedInputTokens: 24448,
+    });
+  });
+
+  it('ignores reasoning items and non-JSON lines', () => {
+    const parsed = parseCodexOutput('warning: something\n' +
+      '{"type":"item.completed","item":{"type":"reasoning","text":"thinking"}}\n');
+    expect(parsed.response).toBe('');
+  });
+
+  it('reports turn failures', () => {
+    const parsed = parseCodexOutput('{"type":"turn.failed","error":{"message":"rate limited"}}');
+    expect(parsed.error).toBe('rate limited');
+  });
+
+  it('reports stream errors', () => {
+    const parsed = parseCodexOutput('{"type":"error","message":"stream disconnected"}');
+    expect(parsed.error).toBe('stream disconnected');
+  });
+});
+
+describe('CodexAdapter', () => {
+  let adapter: CodexAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new CodexAdapter();
+  });
+
+  describe('properties', () => {
+    it('has correct name', () => {
+      expect(adapter.name).toBe('codex');
+    });
+
+    it('has correct display name', () => {
+      expect(adapter.displayName).toBe('Codex CLI');
+    });
+
+    it('has a color defined', () => {
+      expect(adapter.color).toContain('\x1b[');
+    });
+
+    it('has a prompt pattern', () => {
+      expect(adapter.promptPattern).toBeInstanceOf(RegExp);
+    });
+
+    it('matches the composer prompt', () => {
+      expect(adapter.promptPattern.test('› Ask Codex to do anything')).toBe(true);
+      expect(adapter.promptPattern.test('Some response text')).toBe(false);
+    });
+
+    it('has idle timeout set', () => {
+      expect(adapter.idleTimeout).toBeGreaterThan(0);
+    });
+
+    it('has startup delay set', () => {
+      expect(adapter.startupDelay).toBeGreaterThan(0);
+    });
+  });
+
+  describe('getCommand', () => {
+    it('uses exec with JSON output', () => {
+      const cmd = adapter.getCommand('hello', { continueSession: false });
+      expect(cmd.slice(0, 3)).toEqual(['codex', 'exec', '--json']);
+      expect(cmd).toContain('--skip-git-repo-check');
+    });
+
+    it('passes the model before the resume subcommand', () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: 'thread-123' });
+      const cmd = adapter.getCommand('hello', { model: 'gpt-5-codex' });
+      expect(cmd.slice(-5)).toEqual(['--model', 'gpt-5-codex', 'resume', 'thread-123', 'hello']);
+      expect(adapter.getInteractiveCommand({ model: 'gpt-5-codex' })).toEqual(['codex', '--model', 'gpt-5-codex', 'resume', 'thread-123']);
+    });
+
+    it('puts the role in front of the first prompt of a session only', () => {
+      const role = 'You are the reviewer.';
+      expect(adapter.getCommand('hello', { role }).at(-1)).toBe('You are the reviewer.\n\nhello');
+
+      adapter.restoreSessionState({ hasSession: true, sessionId: 'thread-123' });
+      expect(adapter.getCommand('hello', { role }).at(-1)).toBe('hello');
+    });
+
+    it('still sends the role when the session was started in interactive mode', () => {
+      const role = 'You are the reviewer.';
+      adapter.markInteractiveSessionStarted();
+
+      const cmd = adapter.getCommand('hello', { role });
+      expect(cmd).toContain('resume');
+      expect(cmd.at(-1)).toBe('You are the reviewer.\n\nhello');
+    });
+
+    it('widens the sandbox for the edit profile', () => {
+      const cmd = adapter.getCommand('fix it', { continueSession: false, permissionArgs: adapter.permissionProfiles.edit });
+      expect(cmd.slice(-3)).toEqual(['--sandbox', 'workspace-write', 'fix it']);
+    });
+
+    it('puts the prompt last', () => {
+      const cmd = adapter.getCommand('hello');
+      expect(cmd[cmd.length - 1]).toBe('hello');
+    });
+
+    it('starts a new session on the first call', () => {
+      const cmd = adapter.getCommand('hello');
+      expect(cmd).not.toContain('resume');
+    });
+
+    it('resumes the captured thread ID', () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: 'thread-123' });
+      const cmd = adapter.getCommand('hello');
+      expect(cmd).toEqual(['codex', 'exec', '--json', '--skip-git-repo-check', 'resume', 'thread-123', 'hello']);
+    });
+
+    it('resumes the last session when no thread ID is known', () => {
+      adapter.markInteractiveSessionStarted();
+      const cmd = adapter.getCommand('hello');
+      expect(cmd).toContain('resume');
+      expect(cmd).toContain('--last');
+    });
+
+    it('skips resume when continueSession is false', () => {
+      adapter.setHasSession(true);
+      const cmd = adapter.getCommand('hello', { continueSession: false });
+      expect(cmd).not.toContain('resume');
+    });
+  });
+
+  describe('send', () => {
+    it('returns the agent message and resumes the thread next time', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: EXEC_OUTPUT, stderr: '', exitCode: 0 });
+
+      const response = await adapter.send('find the bug', { cwd: '/project' });
+
+      expect(response.text).toBe('The bug is in utils.ts.');
+      expect(response.sessionId).toBe('0199a213-81c0-7800-8aa1-bbab2a035a53');
+      expect(response.raw).toBe(EXEC_OUTPUT);
+      expect(adapter.hasSession()).toBe(true);
+      expect(adapter.getThreadId()).toBe('0199a213-81c0-7800-8aa1-bbab2a035a53');
+      expect(vi.mocked(runCommand).mock.calls[0][2]).toEqual({ cwd: '/project' });
+
+      const next = adapter.getCommand('and fix it');
+      expect(next).toContain('0199a213-81c0-7800-8aa1-bbab2a035a53');
+    });
+
+    it('keeps its thread for one-off requests', async () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: 'main-thread' });
+      vi.mocked(runCommand).mockResolvedValue({ stdout: EXEC_OUTPUT, stderr: '', exitCode: 0 });
+
+      await adapter.send('do these agree?', { continueSession: false });
+
+      expect(adapter.getThreadId()).toBe('main-thread');
+      expect(adapter.getCommand('next turn')).toContain('main-thread');
+    });
+
+    it('does not start a session with a one-off request', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: EXEC_OUTPUT, stderr: '', exitCode: 0 });
+
+      await adapter.send('do these agree?', { continueSession: false });
+
+      expect(adapter.hasSession()).toBe(false);
+      expect(adapter.getThreadId()).toBeNull();
+    });
+
+    it('passes the timeout and cancel signal to the process', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: EXEC_OUTPUT, stderr: '', exitCode: 0 });
+      const controller = new AbortController();
+
+      await adapter.send('hello', { cwd: '/project', timeout: 5000, signal: controller.signal });
+
+      expect(vi.mocked(runCommand).mock.calls[0][2]).toEqual({
+        cwd: '/project',
+        timeout: 5000,
+        signal: controller.signal,
+      });
+    });
+
+    it('throws on a non-zero exit code', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: '', stderr: 'Not logged in', exitCode: 1 });
+
+      await expect(adapter.send('hello')).rejects.toThrow('Not logged in');
+      expect(adapter.hasSession()).toBe(false);
+    });
+
+    it('throws on a failed turn', async () => {
+      vi.mocked(runCommand).mockResolvedValue({
+        stdout: '{"type":"turn.failed","error":{"message":"rate limited"}}',
+        stderr: '',
+        exitCode: 0,
+      });
+
+      await expect(adapter.send('hello')).rejects.toThrow('rate limited');
+    });
+  });
+
+  describe('cleanResponse', () => {
+    it('strips ANSI escape codes', () => {
+      const result = adapter.cleanResponse('\x1b[31mHello\x1b[0m World');
+      expect(result).not.toContain('\x1b[');
+    });
+
+    it('removes box drawing characters', () => {
+      const input = '╭──────╮\n│ text │\n╰──────╯';
+      const result = adapter.cleanResponse(input);
+      expect(result).not.toContain('╭');
+      expect(result).not.toContain('╯');
+    });
+
+    it('removes prompt and status lines', () => {
+      const result = adapter.cleanResponse('Answer here\n› Ask Codex to do anything\n  100% context left · ? for shortcuts');
+      expect(result).toBe('Answer here');
+    });
+
+    it('removes the session header', () => {
+      const result = adapter.cleanResponse('>_ OpenAI Codex (v0.46.0)\nmodel: gpt-5-codex\ndirectory: ~/project\nContent');
+      expect(result).toBe('Content');
+    });
+
+    it('handles empty input', () => {
+      expect(adapter.cleanResponse('')).toBe('');
+    });
+  });
+
+  describe('session management', () => {
+    it('starts with no active session', () => {
+      expect(adapter.hasSession()).toBe(false);
+    });
+
+    it('resets thread ID on resetContext', () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: 'thread-123' });
+      adapter.resetContext();
+      expect(adapter.hasSession()).toBe(false);
+      expect(adapter.getThreadId()).toBeNull();
+    });
+
+    it('round-trips session state', () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: 'thread-123', interactiveSessionStarted: true });
+      expect(adapter.getSessionState()).toEqual({
+        hasSession: true,
+        sessionId: 'thread-123',
+        interactiveSessionStarted: true,
+      });
+    });
+  });
+
+  describe('getInteractiveCommand', () => {
+    it('starts plain codex without a session', () => {
+      expect(adapter.getInteractiveCommand()).toEqual(['codex']);
+    });
+
+    it('resumes the thread when a session exists', () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: 'thread-123' });
+      expect(adapter.getInteractiveCommand()).toEqual(['codex', 'resume', 'thread-123']);
+    });
+  });
+
+  describe('getPersistentArgs', () => {
+    it('returns resume args once a session exists', () => {
+      expect(adapter.getPersistentArgs()).toEqual([]);
+      adapter.setHasSession(true);
+      expect(adapter.getPersistentArgs()).toEqual(['resume', '--last']);
+    });
+  });
+});
+
+describe('CodexAdapter with a fake CLI', () => {
+  const cli = useFakeCli('codex', answer => [
+    JSON.stringify({ type: 'thread.started', thread_id: 'fake-thread' }),
+    JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: answer } }),
+  ].join('\n'));
+
+  it('passes a short prompt as an argument', async () => {
+    const received = await cli.send(new CodexAdapter(), 'What does this do?');
+    expect(received.args.at(-1)).toBe('What does this do?');
+    expect(received.stdin).toBe('');
+  });
+
+  it('sends a very large prompt over stdin', async () => {
+    const received = await cli.send(new CodexAdapter(), LARGE_PROMPT);
+
+    expect(received.stdin).toBe(LARGE_PROMPT);
+    expect(received.args.some(arg => arg.includes('compute(42)'))).toBe(false);
+    // "-" tells codex exec to read the prompt from stdin
+    expect(received.args.at(-1)).toBe('-');
+  });
+});
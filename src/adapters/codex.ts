@@ -0,0 +1,335 @@
+import { ToolAdapter, SendOptions, SendResult, TokenUsage, AdapterSessionState } from './base.js';
+import { runCommand, commandExists, shouldSendViaStdin, prependRole } from '../utils.js';
+
+/**
+ * Parsed result of `codex exec --json` output
+ */
+export interface CodexOutput {
+  /** Final agent message (empty if the turn produced none) */
+  response: string;
+  /** Thread ID reported by Codex, used to resume this exact conversation */
+  threadId: string | null;
+  /** Error reported in the event stream, if the turn failed */
+  error: string | null;
+  /** Token counts from turn.completed, if reported */
+  usage?: TokenUsage;
+}
+
+/**
+ * Fields aic reads from a `codex exec --json` event
+ */
+interface CodexEvent {
+  type?: string;
+  thread_id?: string;
+  message?: string;
+  item?: { type?: string; text?: unknown };
+  error?: { message?: string };
+  usage?: { input_tokens?: number; cached_input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Parse the JSONL event stream printed by `codex exec --json`.
+ *
+ * Relevant events:
+ *   {"type":"thread.started","thread_id":"..."}
+ *   {"type":"item.completed","item":{"type":"agent_message","text":"..."}}
+ *   {"type":"turn.completed","usage":{"input_tokens":...,"cached_input_tokens":...,"output_tokens":...}}
+ *   {"type":"turn.failed","error":{"message":"..."}}
+ *   {"type":"error","message":"..."}
+ *
+ * Lines that aren't JSON (warnings, progress) are ignored.
+ */
+export function parseCodexOutput(stdout: string): CodexOutput {
+  const messages: string[] = [];
+  let threadId: string | null = null;
+  let error: string | null = null;
+  let usage: TokenUsage | undefined;
+
+  for (const line of stdout.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) continue;
+
+    let event: CodexEvent;
+    try {
+      event = JSON.parse(trimmed);
+    } catch {
+      continue;
+    }
+
+    switch (event.type) {
+      case 'thread.started':
+        threadId = event.thread_id || threadId;
+        break;
+      case 'item.completed':
+        if (event.item?.type === 'agent_message' && typeof event.item.text === 'string') {
+          messages.push(event.item.text);
+        }
+        break;
+      case 'turn.completed':
+        if (event.usage) {
+          usage = {
+            inputTokens: (usage?.inputTokens ?? 0) + (event.usage.input_tokens ?? 0),
+            outputTokens: (usage?.outputTokens ?? 0) + (event.usage.output_tokens ?? 0),
+            cachedInputTokens: (usage?.cachedInputTokens ?? 0) + (event.usage.cached_input_tokens ?? 0),
+          };
+        }
+        break;
+      case 'turn.failed':
+        error = event.error?.message || 'Turn failed';
+        break;
+      case 'error':
+        error = event.message || 'Unknown error';
+        break;
+    }
+  }
+
+  return {
+    // The last agent message is the answer - earlier ones are progress notes
+    response: messages.length > 0 ? messages[messages.length - 1].trim() : '',
+    threadId,
+    error,
+    usage,
+  };
+}
+
+/**
+ * Adapter for OpenAI Codex CLI
+ *
+ * Codex CLI supports:
+ * - Non-interactive mode via `codex exec`
+ * - JSONL event output via --json
+ * - Session resume via `codex exec resume <thread_id>` / `codex resume <thread_id>`
+ */
+export class CodexAdapter implements ToolAdapter {
+  readonly name = 'codex';
+  readonly displayName = 'Codex CLI';
+  readonly installCommand = 'npm install -g @openai/codex';
+  readonly color = '\x1b[92m'; // brightGreen
+
+  // Codex shows › at the start of its composer line when ready for input
+  readonly promptPattern = /^\s*[›▌](\s.*)?$/m;
+
+  // Fallback: if no output for 2 seconds, assume response complete
+  readonly idleTimeout = 2000;
+
+  // Codex starts quickly (~3 seconds for first launch)
+  readonly startupDelay = 3000;
+
+  // Sandbox per permission profile - the default sandbox is read-only
+  readonly permissionProfiles = {
+    readonly: [],
+    edit: ['--sandbox', 'workspace-write'],
+  };
+
+  private hasActiveSession = false;
+  private hasStartedInteractiveSession = false;
+
+  // Thread ID from the first print-mode call - lets us resume this exact
+  // conversation instead of whatever Codex session ran last
+  private threadId: string | null = null;
+
+  async isAvailable(): Promise<boolean> {
+    return commandExists('codex');
+  }
+
+  /**
+   * Arguments selecting the session to resume: the captured thread ID, or
+   * --last when the session was started interactively (no ID reported)
+   */
+  private getResumeTarget(): string[] {
+    return this.threadId ? [this.threadId] : ['--last'];
+  }
+
+  private shouldResume(options?: SendOptions): boolean {
+    return options?.continueSession !== false &&
+      (this.hasActiveSession || this.hasStartedInteractiveSession);
+  }
+
+  /**
+   * The prompt as sent. Codex has no system prompt option, so the role goes in
+   * front of the first print-mode prompt of a session. A session started in /i
+   * never got it, so only one that print mode already used counts as having it.
+   */
+  private buildPrompt(prompt: string, options?: SendOptions): string {
+    const hasRole = options?.continueSession !== false && this.hasActiveSession;
+    return hasRole ? prompt : prependRole(prompt, options?.role);
+  }
+
+  getCommand(prompt: string, options?: SendOptions): string[] {
+    const fullPrompt = this.buildPrompt(prompt, options);
+    const args: string[] = ['exec'];
+
+    // JSONL events for clean response extraction and thread ID capture
+    args.push('--json');
+    // aic can run outside git repos - don't refuse to start there
+    args.push('--skip-git-repo-check');
+    // Codex's default read-only sandbox keeps print mode from editing files,
+    // unless the permission profile grants more (/mode edit, !edit)
+    args.push(...(options?.permissionArgs ?? []));
+
+    if (options?.model) {
+      args.push('--model', options.model);
+    }
+
+    if (this.shouldResume(options)) {
+      args.push('resume', ...this.getResumeTarget());
+    }
+
+    // Add the prompt as the last argument (positional) - or "-" for a large prompt,
+    // which send() writes to stdin
+    args.push(shouldSendViaStdin(fullPrompt) ? '-' : fullPrompt);
+
+    return ['codex', ...args];
+  }
+
+  getInteractiveCommand(options?: SendOptions): string[] {
+    const modelArgs = options?.model ? ['--model', options.model] : [];
+    if (this.shouldResume(options)) {
+      return ['codex', ...modelArgs, 'resume', ...this.getResumeTarget()];
+    }
+    return ['codex', ...modelArgs];
+  }
+
+  getPersistentArgs(options?: SendOptions): string[] {
+    const modelArgs = options?.model ? ['--model', options.model] : [];
+    // Resume previous session if we have one from regular mode OR
+    // if we've already started an interactive session (for respawns after exit)
+    if (this.hasActiveSession || this.hasStartedInteractiveSession) {
+      return [...modelArgs, 'resume', ...this.getResumeTarget()];
+    }
+    return modelArgs;
+  }
+
+  cleanResponse(rawOutput: string): string {
+    let output = rawOutput;
+
+    // Remove all ANSI escape sequences first
+    output = output.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '');
+    output = output.replace(/\x1b\[\??\d+[hl]/g, '');
+    output = output.replace(/\x1b\[\d* ?q/g, '');
+    output = output.replace(/\x1b\][^\x07]*\x07/g, ''); // OSC sequences
+
+    // Remove spinner frames and status bullets
+    output = output.replace(/[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏•◦]/g, '');
+
+    // Remove box drawing characters
+    output = output.replace(/[╭╮╰╯│─┌┐└┘├┤┬┴┼║═╔╗╚╝╠╣╦╩╬]/g, '');
+
+    // Remove Codex UI elements
+    output = output.replace(/^\s*>?_?\s*OpenAI Codex.*$/gm, '');
+    output = output.replace(/^\s*(model|directory|approval|sandbox|session id):.*$/gim, '');
+    output = output.replace(/^\s*To get started, describe a task.*$/gm, '');
+    output = output.replace(/^\s*\/\w+\s+-\s+.*$/gm, ''); // Slash command hints
+    output = output.replace(/^.*\d+% context left.*$/gm, '');
+    output = output.replace(/^.*\? for shortcuts.*$/gm, '');
+    output = output.replace(/^\s*Working\s*\(.*esc to interrupt.*\)\s*$/gm, '');
+    output = output.replace(/\(esc to interrupt\)/gi, '');
+    output = output.replace(/^\s*Thinking\s*$/gm, '');
+
+    // Remove the prompt line itself and echoed user prompts
+    output = output.replace(/^\s*[›▌](\s.*)?$/gm, '');
+
+    // Remove duplicate consecutive lines (from redraws)
+    const lines = output.split('\n');
+    const dedupedLines: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const prevLine = dedupedLines[dedupedLines.length - 1];
+      // Skip if this line is same as previous (ignoring whitespace)
+      if (prevLine !== undefined && line.trim() === prevLine.trim() && line.trim().length > 0) {
+        continue;
+      }
+      dedupedLines.push(line);
+    }
+    output = dedupedLines.join('\n');
+
+    // Final cleanup
+    output = output.replace(/\n{3,}/g, '\n\n');
+    output = output.replace(/^\s+$/gm, '');
+
+    return output.trim();
+  }
+
+  async send(prompt: string, options?: SendOptions): Promise<SendResult> {
+    // Use non-interactive runCommand to avoid messing with stdin
+    const fullPrompt = this.buildPrompt(prompt, options);
+    const args = this.getCommand(prompt, options).slice(1); // Remove 'codex' from start
+    const startedAt = Date.now();
+
+    const result = await runCommand('codex', args, {
+      cwd: options?.cwd || process.cwd(),
+      timeout: options?.timeout,
+      signal: options?.signal,
+      input: shouldSendViaStdin(fullPrompt) ? fullPrompt : undefined,
+    });
+
+    const parsed = parseCodexOutput(result.stdout);
+
+    if (result.exitCode !== 0 || parsed.error) {
+      const errorMsg = parsed.error || result.stderr.trim() || result.stdout.trim() || 'Unknown error';
+      throw new Error(`Codex CLI exited with code ${result.exitCode}: ${errorMsg}`);
+    }
+
+    // A one-off request (continueSession: false) runs in a thread of its own - keep ours
+    if (options?.continueSession !== false) {
+      if (parsed.threadId) {
+        this.threadId = parsed.threadId;
+      }
+      this.hasActiveSession = true;
+    }
+
+    // Fallback: if no events were parsed, return raw output (for compatibility)
+    if (!parsed.response && !parsed.threadId) {
+      return { text: result.stdout.trim(), raw: result.stdout, durationMs: Date.now() - startedAt };
+    }
+    return {
+      text: parsed.response,
+      raw: result.stdout,
+      sessionId: parsed.threadId ?? undefined,
+      usage: parsed.usage,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  resetContext(): void {
+    this.hasActiveSession = false;
+    this.hasStartedInteractiveSession = false;
+    this.threadId = null;
+  }
+
+  /** Mark that an interactive session has been started (for PTY respawns) */
+  markInteractiveSessionStarted(): void {
+    this.hasStartedInteractiveSession = true;
+  }
+
+  /** Check if there's an active session */
+  hasSession(): boolean {
+    return this.hasActiveSession;
+  }
+
+  /** Mark that a session exists (for loading from persisted state) */
+  setHasSession(value: boolean): void {
+    this.hasActiveSession = value;
+  }
+
+  /** Get the captured Codex thread ID (for debugging/logging) */
+  getThreadId(): string | null {
+    return this.threadId;
+  }
+
+  /** Export session state so the Codex thread can be resumed after aic restarts */
+  getSessionState(): AdapterSessionState {
+    return {
+      hasSession: this.hasActiveSession,
+      sessionId: this.threadId,
+      interactiveSessionStarted: this.hasStartedInteractiveSession,
+    };
+  }
+
+  /** Restore a saved session - subsequent calls will resume the saved thread */
+  restoreSessionState(state: AdapterSessionState): void {
+    this.hasActiveSession = state.hasSession;
+    this.threadId = state.sessionId ?? null;
+    this.hasStartedInteractiveSession = state.interactiveSessionStarted ?? false;
+  }
+}
@@ -0,0 +1,21 @@
+// Named colors available to config-defined tools
+const COLOR_NAMES: { [name: string]: string } = {
+  brightCyan: '\x1b[96m',
+  brightMagenta: '\x1b[95m',
+  brightYellow: '\x1b[93m',
+  brightGreen: '\x1b[92m',
+  brightBlue: '\x1b[94m',
+  brightRed: '\x1b[91m',
+  brightWhite: '\x1b[97m',
+};
+
+const DEFAULT_COLOR = COLOR_NAMES.brightGreen;
+
+/**
+ * Resolve a color name or raw ANSI code from config
+ */
+export function resolveColor(color?: string): string {
+  if (!color) return DEFAULT_COLOR;
+  if (color.startsWith('\x1b[')) return color;
+  return COLOR_NAMES[color] || DEFAULT_COLOR;
+}
@@ -0,0 +1,58 @@
+import { beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, delimiter } from 'path';
+import type { ToolAdapter } from './base.js';
+import { runCommand } from '../utils.js';
+
+/** What the fake CLI received */
+export interface FakeCliRequest {
+  args: string[];
+  stdin: string;
+}
+
+/** A prompt well over the size that goes to stdin instead of the command line */
+export const LARGE_PROMPT = 'Review this code:\n' + 'const answer = compute(42);\n'.repeat(40_000);
+
+/**
+ * Put a fake `binary` first on PATH for each test of the surrounding describe, and let
+ * runCommand (mocked in adapter tests) really run it. The fake answers with the arguments
+ * and stdin it got, as a JSON string, which formatOutput wraps in the tool's output format.
+ * formatOutput runs inside the fake, so it can't use anything from outside itself.
+ */
+export function useFakeCli(binary: string, formatOutput: (answer: string) => string) {
+  const script = [
+    '#!/usr/bin/env node',
+    'let stdin = "";',
+    'process.stdin.setEncoding("utf8");',
+    'process.stdin.on("data", chunk => stdin += chunk);',
+    'process.stdin.on("end", () => {',
+    '  const answer = JSON.stringify({ args: process.argv.slice(2), stdin });',
+    `  console.log((${formatOutput.toString()})(answer));`,
+    '});',
+  ].join('\n');
+
+  let binDir: string;
+  const originalPath = process.env.PATH;
+
+  beforeEach(async () => {
+    binDir = mkdtempSync(join(tmpdir(), `aic-fake-${binary}-`));
+    writeFileSync(join(binDir, binary), script, { mode: 0o755 });
+    process.env.PATH = `${binDir}${delimiter}${originalPath}`;
+    const actual = await vi.importActual<typeof import('../utils.js')>('../utils.js');
+    vi.mocked(runCommand).mockImplementation(actual.runCommand);
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    rmSync(binDir, { recursive: true, force: true });
+  });
+
+  return {
+    /** Send a one-off prompt through the adapter and return what the fake received */
+    async send(adapter: ToolAdapter, prompt: string): Promise<FakeCliRequest> {
+      const response = await adapter.send(prompt, { continueSession: false });
+      return JSON.parse(response.text);
+    },
+  };
+}
@@ -1,11 +1,47 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { GeminiAdapter } from './gemini.js';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../utils.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils.js')>(),
+  runCommand: vi.fn(),
+}));
+
+import { runCommand } from '../utils.js';
+import {
+  GeminiAdapter,
+  parseGeminiStreamLine,
+  parseGeminiJson,
+  parseGeminiSessionList,
+  findNewSession,
+  isMissingSessionError,
+} from './gemini.js';
+import { useFakeCli, LARGE_PROMPT } from './fake-cli.test-helper.js';
+
+const SESSION_ID = '8c1f2a9e-3b4d-4e5f-9a0b-1c2d3e4f5a6b';
+
+// `gemini --list-sessions` before aic's request...
+const SESSION_LIST_BEFORE = [
+  'Available sessions for this project (1):',
+  '  1. Explain the build setup (2 days ago) [0a0a0a0a-1111-4222-8333-444444444444]',
+].join('\n');
+
+// ...and after it, with a session another terminal started meanwhile
+const SESSION_LIST = [
+  'Available sessions for this project (3):',
+  '  1. Explain the build setup (2 days ago) [0a0a0a0a-1111-4222-8333-444444444444]',
+  `  2. Review the cache layer and suggest improvements to... (5 minutes ago) [${SESSION_ID}]`,
+  '  3. What does this regex do? (Just now) [9f9f9f9f-5555-4666-8777-888888888888]',
+].join('\n');
+
+function jsonOutput(sessionId?: string) {
+  return { stdout: JSON.stringify({ session_id: sessionId, response: 'Sure.' }), stderr: '', exitCode: 0 };
+}
 
 describe('GeminiAdapter', () => {
   let adapter: GeminiAdapter;
 
   beforeEach(() => {
     adapter = new GeminiAdapter();
+    vi.mocked(runCommand).mockReset();
   });
 
   describe('properties', () => {
@@ -43,6 +79,42 @@ describe('GeminiAdapter', () => {
       expect(cmd).toContain('json');
     });
 
+    it('passes the chosen model', () => {
+      const cmd = adapter.getCommand('hello', { model: 'gemini-2.5-flash' });
+      expect(cmd).toEqual(['gemini', '--output-format', 'json', '--model', 'gemini-2.5-flash', 'hello']);
+    });
+
+    it('puts the role in front of the first prompt of a session', () => {
+      const role = 'You are the architect.';
+      expect(adapter.getCommand('hello', { role }).at(-1)).toBe('You are the architect.\n\nhello');
+
+      adapter.setHasSession(true);
+      expect(adapter.getCommand('hello', { role }).at(-1)).toBe('hello');
+
+      adapter.resetContext();
+      expect(adapter.getCommand('hello', { role }).at(-1)).toBe('You are the architect.\n\nhello');
+    });
+
+    it('still sends the role when the session was started in interactive mode', () => {
+      const role = 'You are the architect.';
+      adapter.markInteractiveSessionStarted();
+
+      const cmd = adapter.getCommand('hello', { role });
+      expect(cmd).toContain('--resume');
+      expect(cmd.at(-1)).toBe('You are the architect.\n\nhello');
+    });
+
+    it('adds the permission profile arguments', () => {
+      const cmd = adapter.getCommand('fix it', { permissionArgs: adapter.permissionProfiles.edit });
+      expect(cmd).toEqual(['gemini', '--output-format', 'json', '--approval-mode', 'auto_edit', 'fix it']);
+    });
+
+    it('uses stream-json when the caller wants chunks', () => {
+      const cmd = adapter.getCommand('hello', { onChunk: () => {} });
+      expect(cmd).toContain('stream-json');
+      expect(cmd).not.toContain('json');
+    });
+
     it('starts with gemini command', () => {
       const cmd = adapter.getCommand('test');
       expect(cmd[0]).toBe('gemini');
@@ -138,6 +210,112 @@ describe('GeminiAdapter', () => {
       const argsAfter = adapter.getPersistentArgs();
       expect(argsAfter).toContain('--resume');
     });
+
+    it('round-trips session state', () => {
+      adapter.setHasSession(true);
+      adapter.markInteractiveSessionStarted();
+      const state = adapter.getSessionState();
+
+      const restored = new GeminiAdapter();
+      restored.restoreSessionState(state);
+
+      expect(restored.hasSession()).toBe(true);
+      expect(restored.getCommand('hello')).toContain('--resume');
+    });
+  });
+
+  describe('session pinning', () => {
+    it('resumes the session ID Gemini reported', async () => {
+      vi.mocked(runCommand).mockResolvedValue(jsonOutput(SESSION_ID));
+
+      await adapter.send('hello');
+
+      expect(adapter.getSessionId()).toBe(SESSION_ID);
+      expect(adapter.getCommand('and now?')).toEqual(['gemini', '--output-format', 'json', '--resume', SESSION_ID, 'and now?']);
+      expect(adapter.getPersistentArgs()).toEqual(['--resume', SESSION_ID]);
+    });
+
+    it('looks the session up in the session list when Gemini does not report it', async () => {
+      vi.mocked(runCommand)
+        .mockResolvedValueOnce({ stdout: SESSION_LIST_BEFORE, stderr: '', exitCode: 0 })
+        .mockResolvedValueOnce(jsonOutput())
+        .mockResolvedValueOnce({ stdout: SESSION_LIST, stderr: '', exitCode: 0 });
+
+      await adapter.send('Review the cache layer and suggest improvements to the eviction policy');
+
+      expect(vi.mocked(runCommand).mock.calls[0][1]).toEqual(['--list-sessions']);
+      expect(vi.mocked(runCommand).mock.calls[2][1]).toEqual(['--list-sessions']);
+      expect(adapter.getSessionId()).toBe(SESSION_ID);
+    });
+
+    it('does not list sessions when resuming', async () => {
+      vi.mocked(runCommand).mockResolvedValue(jsonOutput(SESSION_ID));
+      await adapter.send('hello');
+      vi.mocked(runCommand).mockClear();
+
+      await adapter.send('and now?');
+
+      expect(runCommand).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back to the latest session if the lookup fails', async () => {
+      vi.mocked(runCommand)
+        .mockResolvedValueOnce({ stdout: '', stderr: 'Unknown argument: list-sessions', exitCode: 1 })
+        .mockResolvedValueOnce(jsonOutput());
+
+      await adapter.send('hello');
+
+      expect(runCommand).toHaveBeenCalledTimes(2);
+      expect(adapter.getSessionId()).toBeNull();
+      expect(adapter.getCommand('and now?')).toContain('latest');
+    });
+
+    it('starts a new session when the pinned one is gone', async () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: SESSION_ID });
+      vi.mocked(runCommand)
+        .mockResolvedValueOnce({ stdout: '', stderr: `Invalid session identifier "${SESSION_ID}"`, exitCode: 1 })
+        .mockResolvedValueOnce({ stdout: SESSION_LIST_BEFORE, stderr: '', exitCode: 0 })
+        .mockResolvedValueOnce(jsonOutput('2a4b6c8d-0000-4000-8000-000000000000'));
+
+      const response = await adapter.send('hello');
+
+      expect(response.text).toBe('Sure.');
+      expect(response.warnings?.[0]).toContain(`Gemini session ${SESSION_ID} could not be resumed`);
+      expect(vi.mocked(runCommand).mock.calls[2][1]).not.toContain('--resume');
+      expect(adapter.getSessionId()).toBe('2a4b6c8d-0000-4000-8000-000000000000');
+    });
+
+    it('does not retry other errors', async () => {
+      adapter.restoreSessionState({ hasSession: true, sessionId: SESSION_ID });
+      vi.mocked(runCommand).mockResolvedValueOnce({ stdout: '', stderr: 'Quota exceeded', exitCode: 1 });
+
+      await expect(adapter.send('hello')).rejects.toThrow('Quota exceeded');
+      expect(runCommand).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not pin the session of a one-off request', async () => {
+      vi.mocked(runCommand).mockResolvedValue(jsonOutput(SESSION_ID));
+      await adapter.send('hello', { continueSession: false });
+      expect(adapter.getSessionId()).toBeNull();
+    });
+
+    it('saves and restores the pinned session', async () => {
+      vi.mocked(runCommand).mockResolvedValue(jsonOutput(SESSION_ID));
+      await adapter.send('hello');
+
+      const restored = new GeminiAdapter();
+      restored.restoreSessionState(adapter.getSessionState());
+      expect(restored.getCommand('again')).toContain(SESSION_ID);
+    });
+
+    it('forgets the session on reset', async () => {
+      vi.mocked(runCommand).mockResolvedValue(jsonOutput(SESSION_ID));
+      await adapter.send('hello');
+
+      adapter.resetContext();
+      expect(adapter.getSessionId()).toBeNull();
+      expect(adapter.getCommand('hello')).not.toContain('--resume');
+    });
   });
 
   describe('getInteractiveCommand', () => {
@@ -165,5 +343,143 @@ describe('GeminiAdapter', () => {
       expect(args).toContain('--resume');
       expect(args).toContain('latest');
     });
+
+    it('starts the PTY with the chosen model', () => {
+      expect(adapter.getPersistentArgs({ model: 'gemini-2.5-flash' })).toEqual(['--model', 'gemini-2.5-flash']);
+    });
+  });
+});
+
+describe('parseGeminiStreamLine', () => {
+  it('returns assistant message chunks', () => {
+    const line = JSON.stringify({ type: 'message', role: 'assistant', content: 'Hi there', delta: true });
+    expect(parseGeminiStreamLine(line)).toEqual({ text: 'Hi there' });
+  });
+
+  it('ignores the echoed user message and other events', () => {
+    expect(parseGeminiStreamLine(JSON.stringify({ type: 'message', role: 'user', content: 'hello' }))).toBeNull();
+    expect(parseGeminiStreamLine(JSON.stringify({ type: 'tool_result', tool_id: 't1', status: 'success' }))).toBeNull();
+    expect(parseGeminiStreamLine(JSON.stringify({ type: 'result', status: 'success' }))).toBeNull();
+    expect(parseGeminiStreamLine('Loaded cached credentials.')).toBeNull();
+  });
+
+  it('tells errors and warnings apart', () => {
+    expect(parseGeminiStreamLine(JSON.stringify({ type: 'error', severity: 'error', message: 'Quota exceeded' })))
+      .toEqual({ error: 'Quota exceeded' });
+    expect(parseGeminiStreamLine(JSON.stringify({ type: 'error', severity: 'warning', message: 'Slow' })))
+      .toEqual({ warning: 'Slow' });
+    expect(parseGeminiStreamLine(JSON.stringify({ type: 'result', status: 'error', error: { message: 'Boom' } })))
+      .toEqual({ error: 'Boom' });
+  });
+
+  it('returns tool calls with their arguments', () => {
+    const line = JSON.stringify({ type: 'tool_use', tool_name: 'read_file', tool_id: 't1', parameters: { path: 'a.ts' } });
+    expect(parseGeminiStreamLine(line)).toEqual({ toolCall: { name: 'read_file', input: { path: 'a.ts' } } });
+  });
+
+  it('reads the model from init and usage from the result', () => {
+    expect(parseGeminiStreamLine(JSON.stringify({ type: 'init', session_id: 'abc', model: 'gemini-2.5-pro' })))
+      .toEqual({ sessionId: 'abc', model: 'gemini-2.5-pro' });
+    expect(parseGeminiStreamLine(JSON.stringify({
+      type: 'result',
+      status: 'success',
+      stats: { total_tokens: 1300, input_tokens: 1200, output_tokens: 100, duration_ms: 2400 },
+    }))).toEqual({ usage: { inputTokens: 1200, outputTokens: 100, cachedInputTokens: 0 } });
+  });
+});
+
+describe('parseGeminiSessionList', () => {
+  it('reads index, title and ID of each session', () => {
+    expect(parseGeminiSessionList(SESSION_LIST)).toEqual([
+      { index: 1, title: 'Explain the build setup', id: '0a0a0a0a-1111-4222-8333-444444444444' },
+      { index: 2, title: 'Review the cache layer and suggest improvements to...', id: SESSION_ID },
+      { index: 3, title: 'What does this regex do?', id: '9f9f9f9f-5555-4666-8777-888888888888' },
+    ]);
+  });
+
+  it('returns nothing when there are no sessions', () => {
+    expect(parseGeminiSessionList('No previous sessions found for this project.')).toEqual([]);
+  });
+});
+
+describe('findNewSession', () => {
+  const before = parseGeminiSessionList(SESSION_LIST_BEFORE);
+  const after = parseGeminiSessionList(SESSION_LIST);
+
+  it('picks the session the request added', () => {
+    const added = after.slice(0, 2);
+    // A shared role preamble or a shortened title can match older sessions too - they don't count
+    expect(findNewSession(before, added, 'Explain the build setup again')).toBe(SESSION_ID);
+  });
+
+  it('tells sessions started at the same time apart by title', () => {
+    expect(findNewSession(before, after, 'Review the cache layer and\nsuggest improvements to eviction')).toBe(SESSION_ID);
+  });
+
+  it('returns null when it cannot tell which new session is aic\'s', () => {
+    expect(findNewSession(before, after, 'Something else entirely')).toBeNull();
+    expect(findNewSession(before, before, 'Explain the build setup')).toBeNull();
+  });
+});
+
+describe('isMissingSessionError', () => {
+  it('recognizes a resume of an unknown session', () => {
+    expect(isMissingSessionError(new Error('Gemini CLI exited with code 1: Invalid session identifier "abc"'))).toBe(true);
+    expect(isMissingSessionError(new Error('Quota exceeded'))).toBe(false);
+  });
+});
+
+describe('parseGeminiJson', () => {
+  it('sums tokens over models and picks the answering model', () => {
+    const parsed = parseGeminiJson({
+      response: 'Hello',
+      stats: {
+        models: {
+          'gemini-2.5-flash-lite': { tokens: { prompt: 300, candidates: 5, cached: 0, thoughts: 0 } },
+          'gemini-2.5-pro': { tokens: { prompt: 4000, candidates: 120, cached: 1000, thoughts: 80 } },
+        },
+      },
+    });
+
+    expect(parsed).toEqual({
+      text: 'Hello',
+      usage: { inputTokens: 4300, outputTokens: 205, cachedInputTokens: 1000 },
+      model: 'gemini-2.5-pro',
+    });
+  });
+
+  it('reads the session ID, tool calls and errors', () => {
+    const parsed = parseGeminiJson({
+      session_id: 'c0ffee',
+      response: 'Done',
+      stats: { tools: { byName: { read_file: { count: 2 }, run_shell_command: { count: 1 } } } },
+    });
+    expect(parsed.sessionId).toBe('c0ffee');
+    expect(parsed.toolCalls).toEqual([{ name: 'read_file' }, { name: 'read_file' }, { name: 'run_shell_command' }]);
+
+    expect(parseGeminiJson({ error: { message: 'API key not valid' } }).error).toBe('API key not valid');
+  });
+
+  it('returns only the text without stats', () => {
+    expect(parseGeminiJson({ response: 'Hi' })).toEqual({ text: 'Hi' });
+  });
+});
+
+describe('GeminiAdapter with a fake CLI', () => {
+  const cli = useFakeCli('gemini', answer => JSON.stringify({ session_id: 'fake-session', response: answer }));
+
+  it('passes a short prompt as an argument', async () => {
+    const received = await cli.send(new GeminiAdapter(), 'What does this do?');
+    expect(received.args.at(-1)).toBe('What does this do?');
+    expect(received.stdin).toBe('');
+  });
+
+  it('sends a very large prompt over stdin', async () => {
+    const received = await cli.send(new GeminiAdapter(), LARGE_PROMPT);
+
+    expect(received.stdin).toBe(LARGE_PROMPT);
+    expect(received.args.some(arg => arg.includes('compute(42)'))).toBe(false);
+    // Without a positional prompt, gemini reads it from stdin
+    expect(received.args).toEqual(['--output-format', 'json']);
   });
 });
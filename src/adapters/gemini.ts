@@ -1,18 +1,245 @@
-import { ToolAdapter, SendOptions } from './base.js';
-import { runCommand, commandExists, stripAnsi } from '../utils.js';
+import { ToolAdapter, SendOptions, SendResult, TokenUsage, ToolCall, AdapterSessionState } from './base.js';
+import { runCommand, commandExists, stripAnsi, createLineReader, shouldSendViaStdin, prependRole } from '../utils.js';
+
+/**
+ * Token counts for one model in Gemini's JSON stats
+ */
+interface GeminiModelStats {
+  tokens?: {
+    prompt?: number;
+    candidates?: number;
+    cached?: number;
+    thoughts?: number;
+  };
+}
+
+/**
+ * Gemini's `--output-format json` output (fields aic reads)
+ */
+interface GeminiJsonOutput {
+  session_id?: string;
+  response?: string;
+  stats?: {
+    models?: Record<string, GeminiModelStats>;
+    tools?: { byName?: Record<string, { count?: number }> };
+  };
+  error?: { message?: string };
+}
+
+/**
+ * The answer and details from Gemini's JSON output
+ */
+export interface GeminiResult {
+  text: string;
+  sessionId?: string;
+  usage?: TokenUsage;
+  model?: string;
+  toolCalls?: ToolCall[];
+  /** Error reported instead of an answer */
+  error?: string;
+}
+
+/**
+ * Read the answer, session ID, token counts, model and tool calls from
+ * `--output-format json` output. Token counts are summed over all models the request used.
+ */
+export function parseGeminiJson(output: GeminiJsonOutput): GeminiResult {
+  const result: GeminiResult = { text: output.response || '' };
+
+  if (output.session_id) {
+    result.sessionId = output.session_id;
+  }
+  if (output.error) {
+    result.error = output.error.message || 'Unknown error from Gemini';
+  }
+
+  const models = Object.entries(output.stats?.models ?? {});
+  if (models.length > 0) {
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let cachedInputTokens = 0;
+    for (const [, stats] of models) {
+      inputTokens += stats.tokens?.prompt ?? 0;
+      // Thinking tokens are billed as output
+      outputTokens += (stats.tokens?.candidates ?? 0) + (stats.tokens?.thoughts ?? 0);
+      cachedInputTokens += stats.tokens?.cached ?? 0;
+    }
+    result.usage = { inputTokens, outputTokens, cachedInputTokens };
+
+    // Gemini routes simple steps to a lighter model - the answering model writes the most
+    models.sort(([, a], [, b]) => (b.tokens?.candidates ?? 0) - (a.tokens?.candidates ?? 0));
+    result.model = models[0][0];
+  }
+
+  // The JSON summary only counts calls per tool - their arguments are in stream-json
+  const tools = Object.entries(output.stats?.tools?.byName ?? {});
+  if (tools.length > 0) {
+    result.toolCalls = tools.flatMap(([name, stats]) => Array.from({ length: stats.count ?? 1 }, () => ({ name })));
+  }
+
+  return result;
+}
+
+/**
+ * One line of Gemini's stream-json output (fields aic reads)
+ */
+interface GeminiStreamEvent {
+  type: string;
+  role?: string;
+  content?: string;
+  session_id?: string;
+  model?: string;
+  tool_name?: string;
+  parameters?: Record<string, unknown>;
+  severity?: string;
+  message?: string;
+  status?: string;
+  error?: { message?: string };
+  stats?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cached?: number;
+  };
+}
+
+/**
+ * What one stream-json line contributes to the answer
+ */
+export interface GeminiStreamUpdate {
+  /** A piece of answer text */
+  text?: string;
+  /** The request failed */
+  error?: string;
+  /** A problem that didn't stop the answer */
+  warning?: string;
+  /** Session ID and model from the init event */
+  sessionId?: string;
+  model?: string;
+  /** A tool the model called */
+  toolCall?: ToolCall;
+  /** Token counts from the closing result event */
+  usage?: TokenUsage;
+}
+
+/**
+ * Parse a line of `--output-format stream-json` output.
+ * Returns null for lines that don't affect the answer (echoed prompt, tool results, ...).
+ */
+export function parseGeminiStreamLine(line: string): GeminiStreamUpdate | null {
+  let event: GeminiStreamEvent;
+  try {
+    event = JSON.parse(line) as GeminiStreamEvent;
+  } catch {
+    return null;
+  }
+
+  if (event.type === 'init') {
+    return { sessionId: event.session_id, model: event.model };
+  }
+  if (event.type === 'message' && event.role === 'assistant') {
+    return { text: event.content ?? '' };
+  }
+  if (event.type === 'tool_use' && event.tool_name) {
+    return { toolCall: { name: event.tool_name, input: event.parameters } };
+  }
+  if (event.type === 'error') {
+    const message = event.message || 'Unknown error from Gemini';
+    return event.severity === 'warning' ? { warning: message } : { error: message };
+  }
+  if (event.type === 'result' && event.status === 'error') {
+    return { error: event.error?.message || 'Unknown error from Gemini' };
+  }
+  if (event.type === 'result' && event.stats) {
+    return {
+      usage: {
+        inputTokens: event.stats.input_tokens ?? 0,
+        outputTokens: event.stats.output_tokens ?? 0,
+        cachedInputTokens: event.stats.cached ?? 0,
+      },
+    };
+  }
+
+  return null;
+}
+
+// Session lookup is a fallback - don't hold up the answer for long
+const LIST_SESSIONS_TIMEOUT_MS = 10000;
+
+/**
+ * One entry of `gemini --list-sessions`
+ */
+export interface GeminiSessionEntry {
+  index: number;
+  /** The session's first message, possibly shortened */
+  title: string;
+  id: string;
+}
+
+/**
+ * Parse `gemini --list-sessions` output. Entries look like
+ * `  2. Explain the cache layer (Just now) [8c1f2a9e-...]`, oldest first.
+ */
+export function parseGeminiSessionList(output: string): GeminiSessionEntry[] {
+  const sessions: GeminiSessionEntry[] = [];
+  for (const line of stripAnsi(output).split('\n')) {
+    const match = line.match(/^\s*(\d+)\.\s+(.*?)\s*\[([0-9a-f-]{8,})\]\s*$/i);
+    if (!match) continue;
+    sessions.push({
+      index: Number(match[1]),
+      // Drop the relative time ("(2 hours ago)") and current-session marker after the title
+      title: match[2].replace(/\s*\([^()]*\)(\s*\S+)?$/, '').trim(),
+      id: match[3],
+    });
+  }
+  return sessions;
+}
+
+/**
+ * The session a request started: the one that appeared in `gemini --list-sessions`
+ * between a list taken before the request and one taken after it. If another terminal
+ * started a session meanwhile, only a single one titled with the prompt's start counts.
+ */
+export function findNewSession(before: GeminiSessionEntry[], after: GeminiSessionEntry[], prompt: string): string | null {
+  const known = new Set(before.map(session => session.id));
+  const added = after.filter(session => !known.has(session.id));
+  if (added.length <= 1) return added[0]?.id ?? null;
+
+  // The title is the (shortened) first message
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const firstMessage = normalize(prompt);
+  const matches = added.filter(session => {
+    const title = normalize(session.title).replace(/(\.\.\.|…)$/, '').trim();
+    return title.length > 0 && firstMessage.startsWith(title);
+  });
+  return matches.length === 1 ? matches[0].id : null;
+}
+
+// What Gemini prints when --resume names a session it doesn't have
+const MISSING_SESSION_PATTERN = /Invalid session identifier|session .* (was )?not found/i;
+
+/**
+ * Whether a failed request failed because the resumed session doesn't exist
+ * (deleted, or pinned on another machine)
+ */
+export function isMissingSessionError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return MISSING_SESSION_PATTERN.test(message);
+}
 
 /**
  * Adapter for Gemini CLI
  * 
  * Gemini CLI supports:
  * - Non-interactive mode via positional query argument
- * - Output formats: text, json, stream-json (via -o/--output-format)
- * - Session resume via -r/--resume
+ * - Output formats: text, json, stream-json (via -o/--output-format; stream-json when the caller wants chunks)
+ * - Session resume via -r/--resume (by session ID, so other Gemini sessions in the same project are left alone)
+ * - Session listing via --list-sessions
  * - YOLO mode via -y/--yolo for auto-approval
  */
 export class GeminiAdapter implements ToolAdapter {
   readonly name = 'gemini';
   readonly displayName = 'Gemini CLI';
+  readonly installCommand = 'npm install -g @google/gemini-cli';
   readonly color = '\x1b[95m'; // brightMagenta
 
   // Gemini shows > at start of line when ready for input
@@ -24,52 +251,134 @@ export class GeminiAdapter implements ToolAdapter {
   // Gemini is slower to start (~8 seconds for first launch due to auth/loading)
   readonly startupDelay = 8000;
 
+  // Without an approval mode, tools that need approval aren't available in print mode
+  readonly permissionProfiles = {
+    readonly: [],
+    edit: ['--approval-mode', 'auto_edit'],
+  };
+
   private hasActiveSession = false;
   private hasStartedInteractiveSession = false;
 
+  // The Gemini session aic's conversation lives in - resumed by ID rather than as
+  // "latest", which could be a session from another terminal in the same project
+  private sessionId: string | null = null;
+
   async isAvailable(): Promise<boolean> {
     return commandExists('gemini');
   }
   
+  private shouldResume(options?: SendOptions): boolean {
+    return options?.continueSession !== false &&
+      (this.hasActiveSession || this.hasStartedInteractiveSession);
+  }
+
+  /**
+   * The prompt as sent. Gemini has no system prompt option, so the role goes in
+   * front of the first print-mode prompt of a session. A session started in /i
+   * never got it, so only one that print mode already used counts as having it.
+   */
+  private buildPrompt(prompt: string, options?: SendOptions): string {
+    const hasRole = options?.continueSession !== false && this.hasActiveSession;
+    return hasRole ? prompt : prependRole(prompt, options?.role);
+  }
+
   getCommand(prompt: string, options?: SendOptions): string[] {
+    const fullPrompt = this.buildPrompt(prompt, options);
     const args: string[] = [];
 
-    // JSON output for clean response extraction
-    args.push('--output-format', 'json');
+    // JSON output for clean response extraction - one event per line when streaming
+    args.push('--output-format', options?.onChunk ? 'stream-json' : 'json');
+
+    if (options?.model) {
+      args.push('--model', options.model);
+    }
+
+    args.push(...(options?.permissionArgs ?? []));
 
     // Resume previous session if we've already made a call (non-interactive or interactive)
-    const shouldContinue = options?.continueSession !== false &&
-      (this.hasActiveSession || this.hasStartedInteractiveSession);
-    if (shouldContinue) {
-      args.push('--resume', 'latest');
+    if (this.shouldResume(options)) {
+      args.push(...this.getResumeArgs());
     }
 
     // Note: Don't use --include-directories here because it takes an array and would
     // consume the prompt. The cwd is set when spawning the process.
 
-    // Add the prompt as the last argument (positional)
-    args.push(prompt);
+    // Add the prompt as the last argument (positional).
+    // Large prompts are left out - send() writes them to stdin, which Gemini reads instead
+    if (!shouldSendViaStdin(fullPrompt)) {
+      args.push(fullPrompt);
+    }
 
     return ['gemini', ...args];
   }
 
   getInteractiveCommand(options?: SendOptions): string[] {
     const args: string[] = [];
+    if (options?.model) {
+      args.push('--model', options.model);
+    }
     // Resume session if we have one (non-interactive or interactive)
-    if (options?.continueSession !== false &&
-        (this.hasActiveSession || this.hasStartedInteractiveSession)) {
-      args.push('--resume', 'latest');
+    if (this.shouldResume(options)) {
+      args.push(...this.getResumeArgs());
     }
     return ['gemini', ...args];
   }
 
-  getPersistentArgs(): string[] {
+  getPersistentArgs(options?: SendOptions): string[] {
+    const modelArgs = options?.model ? ['--model', options.model] : [];
     // Resume previous session if we have one from regular mode OR
     // if we've already started an interactive session (for respawns after exit)
     if (this.hasActiveSession || this.hasStartedInteractiveSession) {
-      return ['--resume', 'latest'];
+      return [...modelArgs, ...this.getResumeArgs()];
+    }
+    return modelArgs;
+  }
+
+  /**
+   * Resume aic's own session. Only if its ID is unknown (a session started in
+   * interactive mode, or saved by an older aic) fall back to the latest one.
+   */
+  private getResumeArgs(): string[] {
+    return ['--resume', this.sessionId ?? 'latest'];
+  }
+
+  /**
+   * Remember the session a successful request used. Gemini reports its session ID in
+   * JSON output; older versions don't, so find the session the request added to the list.
+   */
+  private async pinSession(
+    options: SendOptions | undefined,
+    reportedId: string | undefined,
+    sessionsBefore: GeminiSessionEntry[] | null,
+    prompt: string
+  ): Promise<void> {
+    this.hasActiveSession = true;
+    // A one-off request (continueSession: false) runs in a session of its own
+    if (options?.continueSession === false) return;
+
+    if (reportedId) {
+      this.sessionId = reportedId;
+    } else if (!this.sessionId && sessionsBefore) {
+      const sessionsAfter = await this.listSessions(options);
+      this.sessionId = sessionsAfter ? findNewSession(sessionsBefore, sessionsAfter, prompt) : null;
+    }
+  }
+
+  /** The sessions in `gemini --list-sessions` - null if they can't be listed */
+  private async listSessions(options: SendOptions | undefined): Promise<GeminiSessionEntry[] | null> {
+    try {
+      const result = await runCommand('gemini', ['--list-sessions'], {
+        cwd: options?.cwd || process.cwd(),
+        timeout: LIST_SESSIONS_TIMEOUT_MS,
+        signal: options?.signal,
+      });
+      if (result.exitCode !== 0) return null;
+      // Sessions list on stdout or stderr depending on the Gemini version
+      return parseGeminiSessionList(`${result.stdout}\n${result.stderr}`);
+    } catch {
+      return null;
     }
-    return [];
   }
 
   cleanResponse(rawOutput: string): string {
@@ -191,44 +500,165 @@ export class GeminiAdapter implements ToolAdapter {
     return output.trim();
   }
 
-  async send(prompt: string, options?: SendOptions): Promise<string> {
+  async send(prompt: string, options?: SendOptions): Promise<SendResult> {
+    const resumingPinned = this.shouldResume(options) && this.sessionId !== null;
+    try {
+      return await this.sendOnce(prompt, options);
+    } catch (error) {
+      if (!resumingPinned || options?.signal?.aborted || !isMissingSessionError(error)) {
+        throw error;
+      }
+
+      // The session is gone - start a new one. aic's history is unaffected, but Gemini
+      // won't remember the earlier conversation, so say so.
+      const lostSessionId = this.sessionId;
+      this.resetContext();
+      const result = await this.sendOnce(prompt, options);
+      result.warnings = [
+        `Gemini session ${lostSessionId} could not be resumed - started a new one. ` +
+          'aic kept the history, but Gemini does not remember the earlier conversation.',
+        ...(result.warnings ?? []),
+      ];
+      return result;
+    }
+  }
+
+  private async sendOnce(prompt: string, options?: SendOptions): Promise<SendResult> {
     // Use non-interactive runCommand to avoid messing with stdin
+    const fullPrompt = this.buildPrompt(prompt, options);
     const args = this.getCommand(prompt, options).slice(1); // Remove 'gemini' from start
 
+    // A request that starts aic's session may not get its ID from Gemini - list the
+    // sessions first, so the new one can be told apart from other terminals' sessions
+    const sessionsBefore = options?.continueSession !== false && !this.shouldResume(options)
+      ? await this.listSessions(options)
+      : null;
+
+    const startedAt = Date.now();
+    const input = shouldSendViaStdin(fullPrompt) ? fullPrompt : undefined;
+    const result = options?.onChunk
+      ? await this.sendStreaming(args, input, options, options.onChunk, startedAt)
+      : await this.sendJson(args, input, options, startedAt);
+
+    await this.pinSession(options, result.sessionId, sessionsBefore, fullPrompt);
+    return result;
+  }
+
+  /**
+   * Run a json request and return the parsed answer
+   */
+  private async sendJson(
+    args: string[],
+    input: string | undefined,
+    options: SendOptions | undefined,
+    startedAt: number
+  ): Promise<SendResult> {
     const result = await runCommand('gemini', args, {
       cwd: options?.cwd || process.cwd(),
+      timeout: options?.timeout,
+      signal: options?.signal,
+      input,
     });
 
+    // Parse the JSON output (errors are reported in it too)
+    let parsed: GeminiResult | null = null;
+    try {
+      parsed = parseGeminiJson(JSON.parse(result.stdout) as GeminiJsonOutput);
+    } catch {
+      // Not JSON - handled below
+    }
+
+    if (parsed?.error) {
+      throw new Error(parsed.error);
+    }
     if (result.exitCode !== 0) {
-      // Try to parse error from JSON response
-      try {
-        const errorJson = JSON.parse(result.stdout);
-        if (errorJson.response) {
-          throw new Error(errorJson.response);
-        }
-      } catch {
-        // Fall back to raw error message
-      }
-      const errorMsg = result.stderr.trim() || result.stdout.trim() || 'Unknown error';
+      const errorMsg = parsed?.text || result.stderr.trim() || result.stdout.trim() || 'Unknown error';
       throw new Error(`Gemini CLI exited with code ${result.exitCode}: ${errorMsg}`);
     }
 
-    // Mark that we now have an active session
-    this.hasActiveSession = true;
-
-    // Parse JSON response and extract the response field
-    try {
-      const jsonResponse = JSON.parse(result.stdout);
-      return jsonResponse.response || '';
-    } catch (parseError) {
+    if (!parsed) {
       // Fallback: if JSON parsing fails, return raw output (for compatibility)
-      return result.stdout.trim();
+      return { text: result.stdout.trim(), raw: result.stdout, durationMs: Date.now() - startedAt };
     }
+    return {
+      text: parsed.text,
+      raw: result.stdout,
+      sessionId: parsed.sessionId,
+      usage: parsed.usage,
+      model: parsed.model,
+      toolCalls: parsed.toolCalls,
+      durationMs: Date.now() - startedAt,
+    };
   }
-  
+
+  /**
+   * Run a stream-json request, passing answer text to onChunk as it arrives.
+   * Gemini has no closing result text - the answer is the streamed text.
+   */
+  private async sendStreaming(
+    args: string[],
+    input: string | undefined,
+    options: SendOptions,
+    onChunk: (text: string) => void,
+    startedAt: number
+  ): Promise<SendResult> {
+    let streamed = '';
+    let error = null as string | null;
+    let sessionId: string | undefined;
+    let model: string | undefined;
+    let usage: TokenUsage | undefined;
+    const toolCalls: ToolCall[] = [];
+    const warnings: string[] = [];
+
+    const reader = createLineReader(line => {
+      const update = parseGeminiStreamLine(line);
+      if (!update) return;
+
+      if (update.text) {
+        streamed += update.text;
+        onChunk(update.text);
+      }
+      if (update.error) error = update.error;
+      if (update.warning) warnings.push(update.warning);
+      if (update.sessionId) sessionId = update.sessionId;
+      if (update.model) model = update.model;
+      if (update.toolCall) toolCalls.push(update.toolCall);
+      if (update.usage) usage = update.usage;
+    });
+
+    const result = await runCommand('gemini', args, {
+      cwd: options.cwd || process.cwd(),
+      timeout: options.timeout,
+      signal: options.signal,
+      input,
+      onStdout: data => reader.push(data),
+    });
+    reader.flush();
+
+    if (error) {
+      throw new Error(error);
+    }
+    if (result.exitCode !== 0) {
+      const errorMsg = result.stderr.trim() || 'Unknown error';
+      throw new Error(`Gemini CLI exited with code ${result.exitCode}: ${errorMsg}`);
+    }
+
+    return {
+      text: streamed.trim(),
+      raw: result.stdout,
+      sessionId,
+      usage,
+      model,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
   resetContext(): void {
     this.hasActiveSession = false;
     this.hasStartedInteractiveSession = false;
+    this.sessionId = null;
   }
 
   /** Mark that an interactive session has been started (for PTY respawns) */
@@ -245,4 +675,25 @@ export class GeminiAdapter implements ToolAdapter {
   setHasSession(value: boolean): void {
     this.hasActiveSession = value;
   }
+
+  /** Get the pinned Gemini session ID (for debugging/logging) */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  /** Export session state so the Gemini session can be resumed after aic restarts */
+  getSessionState(): AdapterSessionState {
+    return {
+      hasSession: this.hasActiveSession,
+      interactiveSessionStarted: this.hasStartedInteractiveSession,
+      sessionId: this.sessionId,
+    };
+  }
+
+  /** Restore a saved session - subsequent calls will resume it */
+  restoreSessionState(state: AdapterSessionState): void {
+    this.hasActiveSession = state.hasSession;
+    this.hasStartedInteractiveSession = state.interactiveSessionStarted ?? false;
+    this.sessionId = state.sessionId ?? null;
+  }
 }
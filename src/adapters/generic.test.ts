@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../utils.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils.js')>(),
+  runCommand: vi.fn(),
+  commandExists: vi.fn().mockResolvedValue(true),
+}));
+
+import { runCommand } from '../utils.js';
+import { GenericCliAdapter, createConfiguredAdapters, getJsonPath } from './generic.js';
+import { HttpChatAdapter } from './http.js';
+
+describe('GenericCliAdapter', () => {
+  let adapter: GenericCliAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    adapter = new GenericCliAdapter('mycli', {
+      command: 'my-cli',
+      displayName: 'My CLI',
+      args: ['run', '--quiet', '--prompt={prompt}'],
+      resumeArgs: ['--continue'],
+      outputFormat: 'json',
+      responsePath: 'answer.text',
+      promptPattern: '^mycli>\\s*$',
+      color: 'brightBlue',
+    });
+  });
+
+  describe('properties', () => {
+    it('uses config values', () => {
+      expect(adapter.name).toBe('mycli');
+      expect(adapter.displayName).toBe('My CLI');
+      expect(adapter.command).toBe('my-cli');
+      expect(adapter.color).toBe('\x1b[94m');
+      expect(adapter.promptPattern.test('mycli> ')).toBe(true);
+    });
+
+    it('falls back to defaults for optional fields', () => {
+      const minimal = new GenericCliAdapter('tool', { args: [] });
+      expect(minimal.displayName).toBe('tool');
+      expect(minimal.command).toBe('tool');
+      expect(minimal.color).toContain('\x1b[');
+      expect(minimal.idleTimeout).toBeGreaterThan(0);
+      expect(minimal.startupDelay).toBeGreaterThan(0);
+    });
+  });
+
+  describe('getCommand', () => {
+    it('substitutes the prompt placeholder', () => {
+      expect(adapter.getCommand('hello')).toEqual(['my-cli', 'run', '--quiet', '--prompt=hello']);
+    });
+
+    it('appends the prompt when the template has no placeholder', () => {
+      const plain = new GenericCliAdapter('tool', { args: ['-p'] });
+      expect(plain.getCommand('hello')).toEqual(['tool', '-p', 'hello']);
+    });
+
+    it('adds resume args once a session exists', () => {
+      adapter.setHasSession(true);
+      expect(adapter.getCommand('hello')).toEqual(['my-cli', '--continue', 'run', '--quiet', '--prompt=hello']);
+    });
+
+    it('adds model args when the config defines them', () => {
+      const withModel = new GenericCliAdapter('tool', { args: ['-p'], modelArgs: ['--model={model}'] });
+      expect(withModel.getCommand('hello', { model: 'fast' })).toEqual(['tool', '--model=fast', '-p', 'hello']);
+      expect(withModel.getPersistentArgs({ model: 'fast' })).toEqual(['--model=fast']);
+      expect(adapter.getCommand('hello', { model: 'fast' })).toEqual(['my-cli', 'run', '--quiet', '--prompt=hello']);
+    });
+
+    it('passes the role with roleArgs, or puts it in front of the first prompt', () => {
+      const withRoleArgs = new GenericCliAdapter('tool', { args: ['-p'], roleArgs: ['--system', '{role}'] });
+      expect(withRoleArgs.getCommand('hello', { role: 'Be brief.' })).toEqual(['tool', '--system', 'Be brief.', '-p', 'hello']);
+      expect(withRoleArgs.getPersistentArgs({ role: 'Be brief.' })).toEqual(['--system', 'Be brief.']);
+
+      expect(adapter.getCommand('hello', { role: 'Be brief.' })).toEqual(['my-cli', 'run', '--quiet', '--prompt=Be brief.\n\nhello']);
+      adapter.setHasSession(true);
+      expect(adapter.getCommand('hello', { role: 'Be brief.' })).toEqual(['my-cli', '--continue', 'run', '--quiet', '--prompt=hello']);
+    });
+
+    it('adds permission args from the profile', () => {
+      const cmd = adapter.getCommand('hello', { permissionArgs: ['--allow-writes'] });
+      expect(cmd).toEqual(['my-cli', '--allow-writes', 'run', '--quiet', '--prompt=hello']);
+    });
+
+    it('skips resume args when continueSession is false', () => {
+      adapter.setHasSession(true);
+      expect(adapter.getCommand('hello', { continueSession: false })).not.toContain('--continue');
+    });
+  });
+
+  describe('session management', () => {
+    it('uses resume args for PTY sessions when active', () => {
+      expect(adapter.getPersistentArgs()).toEqual([]);
+      adapter.setHasSession(true);
+      expect(adapter.getPersistentArgs()).toEqual(['--continue']);
+      expect(adapter.getInteractiveCommand()).toEqual(['my-cli', '--continue']);
+    });
+
+    it('resets context clears session', () => {
+      adapter.setHasSession(true);
+      adapter.resetContext();
+      expect(adapter.hasSession()).toBe(false);
+    });
+  });
+
+  describe('parseOutput', () => {
+    it('extracts the answer from JSON by path', () => {
+      expect(adapter.parseOutput('{"answer": {"text": "42"}}')).toBe('42');
+    });
+
+    it('returns empty string when the path is missing', () => {
+      expect(adapter.parseOutput('{"other": 1}')).toBe('');
+    });
+
+    it('falls back to raw output for invalid JSON', () => {
+      expect(adapter.parseOutput('  not json  ')).toBe('not json');
+    });
+
+    it('returns trimmed text for text output', () => {
+      const text = new GenericCliAdapter('tool', { args: [] });
+      expect(text.parseOutput('  hello\n')).toBe('hello');
+    });
+  });
+
+  describe('send', () => {
+    it('runs the command and marks the session active', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: '{"answer": {"text": "hi"}}', stderr: '', exitCode: 0 });
+
+      const response = await adapter.send('hello', { cwd: '/work' });
+
+      expect(response.text).toBe('hi');
+      expect(runCommand).toHaveBeenCalledWith('my-cli', ['run', '--quiet', '--prompt=hello'], { cwd: '/work' });
+      expect(adapter.hasSession()).toBe(true);
+    });
+
+    it('sends a very large prompt over stdin with stdinArgs', async () => {
+      const stdinAdapter = new GenericCliAdapter('mycli', {
+        command: 'my-cli',
+        args: ['run', '--prompt={prompt}'],
+        stdinArgs: ['run', '--prompt-file=-'],
+      });
+      const prompt = 'const answer = compute(42);\n'.repeat(40_000);
+      vi.mocked(runCommand).mockResolvedValue({ stdout: 'ok', stderr: '', exitCode: 0 });
+
+      await stdinAdapter.send(prompt);
+      await stdinAdapter.send('short question', { continueSession: false });
+
+      expect(vi.mocked(runCommand).mock.calls[0][1]).toEqual(['run', '--prompt-file=-']);
+      expect(vi.mocked(runCommand).mock.calls[0][2]?.input).toBe(prompt);
+      expect(vi.mocked(runCommand).mock.calls[1][1]).toEqual(['run', '--prompt=short question']);
+      expect(vi.mocked(runCommand).mock.calls[1][2]?.input).toBeUndefined();
+    });
+
+    it('keeps a large prompt in argv without stdinArgs', async () => {
+      const prompt = 'x'.repeat(20_000);
+      vi.mocked(runCommand).mockResolvedValue({ stdout: '{}', stderr: '', exitCode: 0 });
+
+      await adapter.send(prompt);
+
+      expect(vi.mocked(runCommand).mock.calls[0][1]).toContain(`--prompt=${prompt}`);
+      expect(vi.mocked(runCommand).mock.calls[0][2]?.input).toBeUndefined();
+    });
+
+    it('throws with the display name on failure', async () => {
+      vi.mocked(runCommand).mockResolvedValue({ stdout: '', stderr: 'bad flag', exitCode: 2 });
+
+      await expect(adapter.send('hello')).rejects.toThrow('My CLI exited with code 2: bad flag');
+      expect(adapter.hasSession()).toBe(false);
+    });
+  });
+
+  describe('cleanResponse', () => {
+    it('strips ANSI codes and prompt lines', () => {
+      const result = adapter.cleanResponse('\x1b[32mAnswer\x1b[0m\nmycli> \n');
+      expect(result).toBe('Answer');
+    });
+  });
+});
+
+describe('getJsonPath', () => {
+  it('walks objects and array indices', () => {
+    expect(getJsonPath({ choices: [{ message: { content: 'x' } }] }, 'choices.0.message.content')).toBe('x');
+  });
+
+  it('returns undefined for missing paths', () => {
+    expect(getJsonPath({ a: 1 }, 'a.b.c')).toBeUndefined();
+  });
+});
+
+describe('createConfiguredAdapters', () => {
+  it('creates adapters only for entries with print-mode args', () => {
+    const adapters = createConfiguredAdapters({
+      claude: { command: 'claude', defaultFlags: ['-p'] },
+      mycli: { args: ['{prompt}'] },
+    });
+
+    expect(adapters.map(a => a.name)).toEqual(['mycli']);
+  });
+
+  it('creates HTTP chat adapters for entries with a url', () => {
+    const adapters = createConfiguredAdapters({
+      local: { url: 'http://localhost:11434/v1/chat/completions', model: 'llama3.1' },
+    });
+
+    expect(adapters).toHaveLength(1);
+    expect(adapters[0]).toBeInstanceOf(HttpChatAdapter);
+    expect(adapters[0].interactiveMode).toBe('repl');
+  });
+
+  it('skips excluded names', () => {
+    const adapters = createConfiguredAdapters({ claude: { args: [] } }, ['claude']);
+    expect(adapters).toHaveLength(0);
+  });
+
+  it('warns about and skips invalid entries', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const adapters = createConfiguredAdapters({
+      'bad name': { args: [] },
+      badregex: { args: [], promptPattern: '(' },
+    });
+
+    expect(adapters).toHaveLength(0);
+    expect(warnSpy).toHaveBeenCalledTimes(2);
+    warnSpy.mockRestore();
+  });
+});
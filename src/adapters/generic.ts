@@ -0,0 +1,269 @@
+import { ToolAdapter, SendOptions, SendResult } from './base.js';
+import { runCommand, commandExists, prependRole, shouldSendViaStdin } from '../utils.js';
+import type { ToolConfig } from '../config.js';
+import { resolveColor } from './colors.js';
+import { HttpChatAdapter } from './http.js';
+
+const PROMPT_PLACEHOLDER = '{prompt}';
+const MODEL_PLACEHOLDER = '{model}';
+const ROLE_PLACEHOLDER = '{role}';
+
+// Tool names become /commands and file names - keep them simple
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Read a value from parsed JSON by dot path (e.g. "choices.0.message.content")
+ */
+export function getJsonPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split('.').filter(k => k.length > 0)) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as { [key: string]: unknown })[key];
+  }
+  return current;
+}
+
+/**
+ * Adapter for CLI tools defined entirely in ~/.aic/config.json
+ *
+ * Example config entry:
+ *   "tools": {
+ *     "mycli": {
+ *       "command": "mycli",
+ *       "displayName": "My CLI",
+ *       "args": ["run", "--quiet", "{prompt}"],
+ *       "stdinArgs": ["run", "--quiet", "-"],
+ *       "resumeArgs": ["--continue"],
+ *       "modelArgs": ["--model", "{model}"],
+ *       "roleArgs": ["--system", "{role}"],
+ *       "outputFormat": "json",
+ *       "responsePath": "answer.text",
+ *       "promptPattern": "^mycli>\\s*$",
+ *       "color": "brightBlue"
+ *     }
+ *   }
+ */
+export class GenericCliAdapter implements ToolAdapter {
+  readonly name: string;
+  readonly displayName: string;
+  readonly command: string;
+  readonly color: string;
+  readonly promptPattern: RegExp;
+  readonly idleTimeout: number;
+  readonly startupDelay: number;
+
+  private hasActiveSession = false;
+
+  constructor(name: string, private config: ToolConfig) {
+    this.name = name;
+    this.displayName = config.displayName || name;
+    this.command = config.command || name;
+    this.color = resolveColor(config.color);
+    this.promptPattern = config.promptPattern ? new RegExp(config.promptPattern, 'm') : /^>\s*$/m;
+    this.idleTimeout = config.idleTimeout ?? 2000;
+    this.startupDelay = config.startupDelay ?? 3000;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return commandExists(this.command);
+  }
+
+  private getResumeArgs(options?: SendOptions): string[] {
+    if (options?.continueSession !== false && this.hasActiveSession) {
+      return this.config.resumeArgs || [];
+    }
+    return [];
+  }
+
+  /** Model selection from the modelArgs template - tools without one ignore the model */
+  private getModelArgs(options?: SendOptions): string[] {
+    const model = options?.model;
+    if (!model || !this.config.modelArgs) {
+      return [];
+    }
+    return this.config.modelArgs.map(arg => arg.split(MODEL_PLACEHOLDER).join(model));
+  }
+
+  /** Role as a system prompt from the roleArgs template - without one, the role is prepended instead */
+  private getRoleArgs(options?: SendOptions): string[] {
+    const role = options?.role;
+    if (!role || !this.config.roleArgs) {
+      return [];
+    }
+    return this.config.roleArgs.map(arg => arg.split(ROLE_PLACEHOLDER).join(role));
+  }
+
+  /** The role goes in front of the first prompt of a session if the tool can't take it as an argument */
+  private buildPrompt(prompt: string, options?: SendOptions): string {
+    if (this.config.roleArgs || this.getResumeArgs(options).length > 0) {
+      return prompt;
+    }
+    return prependRole(prompt, options?.role);
+  }
+
+  /** Large prompts go to stdin if the tool has stdinArgs to read them with */
+  private sendsViaStdin(fullPrompt: string): boolean {
+    return this.config.stdinArgs !== undefined && shouldSendViaStdin(fullPrompt);
+  }
+
+  getCommand(prompt: string, options?: SendOptions): string[] {
+    const fullPrompt = this.buildPrompt(prompt, options);
+    let args: string[];
+
+    if (this.sendsViaStdin(fullPrompt)) {
+      args = [...(this.config.stdinArgs ?? [])];
+    } else {
+      const template = this.config.args || [];
+      const hasPlaceholder = template.some(arg => arg.includes(PROMPT_PLACEHOLDER));
+      args = template.map(arg => arg.split(PROMPT_PLACEHOLDER).join(fullPrompt));
+
+      // Prompt goes last if the template doesn't place it
+      if (!hasPlaceholder) {
+        args.push(fullPrompt);
+      }
+    }
+
+    const permissionArgs = options?.permissionArgs ?? [];
+    return [
+      this.command,
+      ...this.getModelArgs(options),
+      ...this.getRoleArgs(options),
+      ...permissionArgs,
+      ...this.getResumeArgs(options),
+      ...args,
+    ];
+  }
+
+  getInteractiveCommand(options?: SendOptions): string[] {
+    return [this.command, ...this.getModelArgs(options), ...this.getRoleArgs(options), ...this.getResumeArgs(options)];
+  }
+
+  getPersistentArgs(options?: SendOptions): string[] {
+    return [...this.getModelArgs(options), ...this.getRoleArgs(options), ...this.getResumeArgs()];
+  }
+
+  cleanResponse(rawOutput: string): string {
+    let output = rawOutput;
+
+    // Remove ANSI escape sequences
+    output = output.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '');
+    output = output.replace(/\x1b\[\??\d+[hl]/g, '');
+    output = output.replace(/\x1b\[\d* ?q/g, '');
+    output = output.replace(/\x1b\][^\x07]*\x07/g, ''); // OSC sequences
+
+    // Remove spinner frames
+    output = output.replace(/[⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏]/g, '');
+
+    // Remove lines that are just the tool's input prompt
+    const promptLine = new RegExp(this.promptPattern.source);
+    output = output
+      .split('\n')
+      .filter(line => !promptLine.test(line))
+      .join('\n');
+
+    // Final cleanup
+    output = output.replace(/\n{3,}/g, '\n\n');
+    output = output.replace(/^\s+$/gm, '');
+
+    return output.trim();
+  }
+
+  /**
+   * Extract the answer from print-mode output according to outputFormat/responsePath
+   */
+  parseOutput(stdout: string): string {
+    if (this.config.outputFormat !== 'json') {
+      return stdout.trim();
+    }
+
+    try {
+      const parsed = JSON.parse(stdout);
+      const answer = this.config.responsePath ? getJsonPath(parsed, this.config.responsePath) : parsed;
+      if (answer === undefined || answer === null) {
+        return '';
+      }
+      return typeof answer === 'string' ? answer : JSON.stringify(answer, null, 2);
+    } catch {
+      // Fallback: if JSON parsing fails, return raw output
+      return stdout.trim();
+    }
+  }
+
+  async send(prompt: string, options?: SendOptions): Promise<SendResult> {
+    const fullPrompt = this.buildPrompt(prompt, options);
+    const args = this.getCommand(prompt, options).slice(1); // Remove command from start
+    const startedAt = Date.now();
+
+    const result = await runCommand(this.command, args, {
+      cwd: options?.cwd || process.cwd(),
+      timeout: options?.timeout,
+      signal: options?.signal,
+      input: this.sendsViaStdin(fullPrompt) ? fullPrompt : undefined,
+    });
+
+    if (result.exitCode !== 0) {
+      const errorMsg = result.stderr.trim() || result.stdout.trim() || 'Unknown error';
+      throw new Error(`${this.displayName} exited with code ${result.exitCode}: ${errorMsg}`);
+    }
+
+    // Mark that we now have an active session
+    this.hasActiveSession = true;
+
+    return { text: this.parseOutput(result.stdout), raw: result.stdout, durationMs: Date.now() - startedAt };
+  }
+
+  resetContext(): void {
+    this.hasActiveSession = false;
+  }
+
+  hasSession(): boolean {
+    return this.hasActiveSession;
+  }
+
+  setHasSession(value: boolean): void {
+    this.hasActiveSession = value;
+  }
+}
+
+/**
+ * Create adapters for config-defined tools: HttpChatAdapter for entries with a "url",
+ * GenericCliAdapter for entries with print-mode "args".
+ * Other entries (like the built-in claude/gemini entries) are skipped,
+ * as are names in `exclude` (already registered adapters).
+ */
+export function createConfiguredAdapters(
+  tools: { [name: string]: ToolConfig },
+  exclude: string[] = []
+): ToolAdapter[] {
+  const adapters: ToolAdapter[] = [];
+
+  for (const [name, toolConfig] of Object.entries(tools)) {
+    const isHttp = typeof toolConfig.url === 'string';
+    if (exclude.includes(name) || (!isHttp && !Array.isArray(toolConfig.args))) continue;
+
+    if (!TOOL_NAME_PATTERN.test(name)) {
+      console.warn(`Ignoring tool "${name}" in config: names may only contain letters, numbers, - and _`);
+      continue;
+    }
+
+    if (isHttp) {
+      adapters.push(new HttpChatAdapter(name, toolConfig));
+      continue;
+    }
+
+    if (toolConfig.promptPattern) {
+      try {
+        new RegExp(toolConfig.promptPattern);
+      } catch {
+        console.warn(`Ignoring tool "${name}" in config: invalid promptPattern`);
+        continue;
+      }
+    }
+
+    adapters.push(new GenericCliAdapter(name, toolConfig));
+  }
+
+  return adapters;
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, Server, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { HttpChatAdapter } from './http.js';
+
+interface StubRequest {
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+// Minimal OpenAI-compatible server: echoes the number of messages it received
+function startStubServer(requests: StubRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      if (req.method !== 'POST') {
+        res.writeHead(405).end();
+        return;
+      }
+
+      const body = JSON.parse(data);
+      requests.push({ headers: req.headers, body });
+
+      const lastMessage = body.messages[body.messages.length - 1].content;
+      if (lastMessage === 'hang') {
+        // Never answer - the client has to give up
+        return;
+      }
+      if (lastMessage === 'fail') {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'model not loaded' } }));
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        model: 'llama3.1:8b',
+        choices: [{ message: { role: 'assistant', content: ` reply #${body.messages.length} ` } }],
+        usage: { prompt_tokens: 10 * body.messages.length, completion_tokens: 5 },
+      }));
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('HttpChatAdapter', () => {
+  let server: Server;
+  let url: string;
+  let requests: StubRequest[];
+  let adapter: HttpChatAdapter;
+
+  beforeAll(async () => {
+    requests = [];
+    server = await startStubServer(requests);
+    const { port } = server.address() as AddressInfo;
+    url = `http://127.0.0.1:${port}/v1/chat/completions`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    adapter = new HttpChatAdapter('local', { url, model: 'llama3.1', displayName: 'Llama' });
+  });
+
+  describe('properties', () => {
+    it('uses config values', () => {
+      expect(adapter.name).toBe('local');
+      expect(adapter.displayName).toBe('Llama');
+      expect(adapter.color).toContain('\x1b[');
+      expect(adapter.interactiveMode).toBe('repl');
+    });
+
+    it('requires a url', () => {
+      expect(() => new HttpChatAdapter('local', {})).toThrow('needs a url');
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('is available when the server answers', async () => {
+      expect(await adapter.isAvailable()).toBe(true);
+    });
+
+    it('is unavailable when nothing is listening', async () => {
+      const offline = new HttpChatAdapter('offline', { url: 'http://127.0.0.1:1/v1/chat/completions' });
+      expect(await offline.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('send', () => {
+    it('posts the model and prompt and returns the trimmed answer', async () => {
+      const response = await adapter.send('hello');
+
+      expect(response.text).toBe('reply #1');
+      expect(requests[0].body).toEqual({
+        model: 'llama3.1',
+        messages: [{ role: 'user', content: 'hello' }],
+      });
+      expect(adapter.hasSession()).toBe(true);
+    });
+
+    it('sends the model chosen for the request instead of the configured one', async () => {
+      await adapter.send('hello', { model: 'qwen2.5-coder' });
+      expect(requests[0].body.model).toBe('qwen2.5-coder');
+    });
+
+    it('returns the usage and model the server reports', async () => {
+      const response = await adapter.send('hello');
+
+      expect(response.usage).toEqual({ inputTokens: 10, outputTokens: 5, cachedInputTokens: undefined });
+      expect(response.model).toBe('llama3.1:8b');
+      expect(response.costUsd).toBeUndefined();
+    });
+
+    it('sends the conversation so far with each request', async () => {
+      await adapter.send('first');
+      const response = await adapter.send('second');
+
+      expect(response.text).toBe('reply #3');
+      expect(requests[1].body.messages).toEqual([
+        { role: 'user', content: 'first' },
+        { role: 'assistant', content: ' reply #1 ' },
+        { role: 'user', content: 'second' },
+      ]);
+    });
+
+    it('sends the role as the system message without keeping it in the conversation', async () => {
+      await adapter.send('first', { role: 'You are the architect.' });
+      await adapter.send('second', { role: 'You are the reviewer.' });
+
+      expect(requests[0].body.messages[0]).toEqual({ role: 'system', content: 'You are the architect.' });
+      expect(requests[1].body.messages.map((m: { role: string }) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(requests[1].body.messages[0].content).toBe('You are the reviewer.');
+    });
+
+    it('sends a one-off request when continueSession is false', async () => {
+      await adapter.send('first');
+      await adapter.send('one-off', { continueSession: false });
+      await adapter.send('second');
+
+      expect(requests[1].body.messages).toHaveLength(1);
+      expect(requests[2].body.messages).toHaveLength(3);
+    });
+
+    it('sends the API key from the configured environment variable', async () => {
+      process.env.AIC_TEST_API_KEY = 'secret';
+      try {
+        const withKey = new HttpChatAdapter('local', { url, apiKeyEnv: 'AIC_TEST_API_KEY' });
+        await withKey.send('hello');
+        expect(requests[0].headers.authorization).toBe('Bearer secret');
+      } finally {
+        delete process.env.AIC_TEST_API_KEY;
+      }
+    });
+
+    it('reports API errors and keeps them out of the conversation', async () => {
+      await expect(adapter.send('fail')).rejects.toThrow('HTTP 500: model not loaded');
+      expect(adapter.hasSession()).toBe(false);
+    });
+
+    it('stops waiting when the request is cancelled', async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+
+      await expect(adapter.send('hang', { signal: controller.signal })).rejects.toThrow('request to');
+      expect(adapter.hasSession()).toBe(false);
+    });
+
+    it('gives up after the timeout', async () => {
+      await expect(adapter.send('hang', { timeout: 100 })).rejects.toThrow('request to');
+    });
+
+    it('reports unreachable servers', async () => {
+      const offline = new HttpChatAdapter('offline', { url: 'http://127.0.0.1:1/v1/chat/completions' });
+      await expect(offline.send('hello')).rejects.toThrow('request to http://127.0.0.1:1');
+    });
+  });
+
+  describe('session management', () => {
+    it('resetContext starts a new conversation', async () => {
+      await adapter.send('first');
+      adapter.resetContext();
+      await adapter.send('second');
+
+      expect(adapter.hasSession()).toBe(true);
+      expect(requests[1].body.messages).toHaveLength(1);
+    });
+
+    it('round-trips the message list through session state', async () => {
+      await adapter.send('first');
+      const state = adapter.getSessionState();
+
+      const restored = new HttpChatAdapter('local', { url });
+      restored.restoreSessionState(state);
+      await restored.send('second');
+
+      expect(restored.hasSession()).toBe(true);
+      expect(requests[1].body.messages).toHaveLength(3);
+    });
+  });
+});
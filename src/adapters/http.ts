@@ -0,0 +1,204 @@
+import { ToolAdapter, SendOptions, SendResult, AdapterSessionState, ChatMessage } from './base.js';
+import type { ToolConfig } from '../config.js';
+import { resolveColor } from './colors.js';
+
+// Availability check only needs to reach the server - keep it fast for the splash screen
+const AVAILABILITY_TIMEOUT_MS = 1000;
+
+/**
+ * Shape of an OpenAI-compatible chat completions response (fields aic reads)
+ */
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+  error?: { message?: string } | string;
+}
+
+/**
+ * Adapter for OpenAI-compatible chat completion servers (llama.cpp, Ollama,
+ * LM Studio, vLLM, ...) - no CLI involved.
+ *
+ * There is no server-side session, so the adapter keeps the message list
+ * itself and sends it with every request. Interactive mode uses aic's
+ * built-in chat REPL instead of a PTY.
+ *
+ * Example config entry:
+ *   "tools": {
+ *     "local": {
+ *       "displayName": "Llama (local)",
+ *       "url": "http://localhost:11434/v1/chat/completions",
+ *       "model": "llama3.1",
+ *       "apiKeyEnv": "LOCAL_LLM_API_KEY"
+ *     }
+ *   }
+ */
+export class HttpChatAdapter implements ToolAdapter {
+  readonly name: string;
+  readonly displayName: string;
+  readonly color: string;
+  readonly interactiveMode = 'repl';
+
+  // Unused - there is no PTY - but required by ToolAdapter
+  readonly promptPattern = /^>\s*$/m;
+  readonly idleTimeout = 0;
+  readonly startupDelay = 0;
+
+  private readonly url: string;
+  private messages: ChatMessage[] = [];
+
+  constructor(name: string, private config: ToolConfig) {
+    if (!config.url) {
+      throw new Error(`Tool "${name}" needs a url`);
+    }
+    this.name = name;
+    this.url = config.url;
+    this.displayName = config.displayName || name;
+    this.color = resolveColor(config.color);
+  }
+
+  /** The server is available if it answers at all (any HTTP status) */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await fetch(this.url, { method: 'GET', signal: AbortSignal.timeout(AVAILABILITY_TIMEOUT_MS) });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = this.config.apiKeyEnv ? process.env[this.config.apiKeyEnv] : undefined;
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  /** Combine the caller's cancel signal with the request timeout */
+  private getRequestSignal(options?: SendOptions): AbortSignal | undefined {
+    const signals: AbortSignal[] = [];
+    if (options?.signal) signals.push(options.signal);
+    if (options?.timeout) signals.push(AbortSignal.timeout(options.timeout));
+    return signals.length > 0 ? AbortSignal.any(signals) : undefined;
+  }
+
+  /**
+   * Build the request body for a prompt, including the conversation so far.
+   * The role is sent as the system message and isn't kept with the conversation,
+   * so changing it applies to the next request.
+   */
+  buildRequest(prompt: string, options?: SendOptions): { model?: string; messages: ChatMessage[] } {
+    const history = options?.continueSession !== false ? this.messages : [];
+    const system: ChatMessage[] = options?.role ? [{ role: 'system', content: options.role }] : [];
+    return {
+      model: options?.model || this.config.model,
+      messages: [...system, ...history, { role: 'user', content: prompt }],
+    };
+  }
+
+  getCommand(prompt: string, options?: SendOptions): string[] {
+    // Not a CLI - show the equivalent request for debugging
+    return ['POST', this.url, JSON.stringify(this.buildRequest(prompt, options))];
+  }
+
+  getInteractiveCommand(): string[] {
+    return [];
+  }
+
+  getPersistentArgs(): string[] {
+    return [];
+  }
+
+  cleanResponse(rawOutput: string): string {
+    return rawOutput.trim();
+  }
+
+  async send(prompt: string, options?: SendOptions): Promise<SendResult> {
+    const request = this.buildRequest(prompt, options);
+    const startedAt = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(request),
+        signal: this.getRequestSignal(options),
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`${this.displayName} request to ${this.url} failed: ${reason}`);
+    }
+
+    const body = await response.text();
+    let parsed: ChatCompletionResponse | null = null;
+    try {
+      parsed = JSON.parse(body) as ChatCompletionResponse;
+    } catch {
+      // Non-JSON body - reported below
+    }
+
+    if (!response.ok) {
+      const apiError = typeof parsed?.error === 'string' ? parsed.error : parsed?.error?.message;
+      throw new Error(`${this.displayName} returned HTTP ${response.status}: ${apiError || body.trim() || response.statusText}`);
+    }
+
+    const content = parsed?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`${this.displayName} returned an unexpected response: ${body.trim().slice(0, 200)}`);
+    }
+
+    // Only a successful exchange becomes part of the conversation
+    if (options?.continueSession !== false) {
+      const conversation = request.messages.filter(message => message.role !== 'system');
+      this.messages = [...conversation, { role: 'assistant', content }];
+    }
+
+    const usage = parsed?.usage;
+    return {
+      text: content.trim(),
+      raw: body,
+      usage: usage ? {
+        inputTokens: usage.prompt_tokens ?? 0,
+        outputTokens: usage.completion_tokens ?? 0,
+        cachedInputTokens: usage.prompt_tokens_details?.cached_tokens,
+      } : undefined,
+      // Local servers don't bill - there is no cost to report
+      model: parsed?.model || options?.model || this.config.model,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  resetContext(): void {
+    this.messages = [];
+  }
+
+  hasSession(): boolean {
+    return this.messages.length > 0;
+  }
+
+  setHasSession(value: boolean): void {
+    // The conversation lives in this process - it can be cleared but not conjured
+    if (!value) {
+      this.messages = [];
+    }
+  }
+
+  /** Export the message list - without it, a restored session would start empty */
+  getSessionState(): AdapterSessionState {
+    return {
+      hasSession: this.hasSession(),
+      messages: this.messages,
+    };
+  }
+
+  restoreSessionState(state: AdapterSessionState): void {
+    this.messages = state.hasSession && state.messages ? [...state.messages] : [];
+  }
+}
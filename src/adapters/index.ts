@@ -1,5 +1,9 @@
-export type { ToolAdapter, SendOptions } from './base.js';
+export type { ToolAdapter, SendOptions, SendResult, TokenUsage, ToolCall, AdapterSessionState, ToolChanges, ChatMessage } from './base.js';
 export { AdapterRegistry } from './base.js';
 export { ClaudeAdapter } from './claude.js';
 export { GeminiAdapter } from './gemini.js';
+export { CodexAdapter } from './codex.js';
+export { AiderAdapter } from './aider.js';
 
+export { GenericCliAdapter, createConfiguredAdapters } from './generic.js';
+export { HttpChatAdapter } from './http.js';
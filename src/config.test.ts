@@ -25,6 +25,11 @@ import {
   saveConfig,
   getDefaultTool,
   setDefaultTool,
+  getDebateConfig,
+  getToolModel,
+  getToolRole,
+  getForwardTemplates,
+  DEFAULT_DEBATE_STOP_PHRASE,
 } from './config.js';
 
 describe('config', () => {
@@ -192,6 +197,14 @@ describe('config', () => {
 
       expect(tool).toBe('claude');
     });
+
+    it('should accept env var values from the given tool list', () => {
+      process.env.AIC_DEFAULT_TOOL = 'mycli';
+
+      const tool = getDefaultTool(['claude', 'gemini', 'mycli']);
+
+      expect(tool).toBe('mycli');
+    });
   });
 
   describe('setDefaultTool', () => {
@@ -228,5 +241,80 @@ describe('config', () => {
 
       expect(result.success).toBe(true);
     });
+
+    it('should validate against the given tool list', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      expect(setDefaultTool('mycli', ['claude', 'mycli']).success).toBe(true);
+
+      const result = setDefaultTool('gemini', ['claude', 'mycli']);
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('claude, mycli');
+    });
+  });
+
+  describe('getDebateConfig', () => {
+    it('should use the default stop phrase when not configured', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      const debate = getDebateConfig();
+
+      expect(debate.stopPhrase).toBe(DEFAULT_DEBATE_STOP_PHRASE);
+      expect(debate.judgePrompt).toBeUndefined();
+    });
+
+    it('should return configured stop phrase and judge prompt', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(
+        JSON.stringify({ debate: { stopPhrase: 'CONSENSUS', judgePrompt: 'Do they agree?' } })
+      );
+
+      const debate = getDebateConfig();
+
+      expect(debate.stopPhrase).toBe('CONSENSUS');
+      expect(debate.judgePrompt).toBe('Do they agree?');
+    });
+  });
+
+  describe('getToolModel', () => {
+    it('should return the configured model', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(
+        JSON.stringify({ tools: { claude: { model: 'opus' }, gemini: { model: '  ' } } })
+      );
+
+      expect(getToolModel('claude')).toBe('opus');
+      expect(getToolModel('gemini')).toBeUndefined();
+      expect(getToolModel('codex')).toBeUndefined();
+    });
+  });
+
+  describe('getForwardTemplates', () => {
+    it('should return the templates from config', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(
+        JSON.stringify({ forwardTemplates: { tests: 'Write tests for:\n{content}' } })
+      );
+
+      expect(getForwardTemplates()).toEqual({ tests: 'Write tests for:\n{content}' });
+    });
+
+    it('should be empty without templates in config', () => {
+      vi.mocked(existsSync).mockReturnValue(false);
+      expect(getForwardTemplates()).toEqual({});
+    });
+  });
+
+  describe('getToolRole', () => {
+    it('should return the configured role', () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFileSync).mockReturnValue(
+        JSON.stringify({ tools: { gemini: { role: ' You are the architect. ' }, claude: { role: '' } } })
+      );
+
+      expect(getToolRole('gemini')).toBe('You are the architect.');
+      expect(getToolRole('claude')).toBeUndefined();
+      expect(getToolRole('codex')).toBeUndefined();
+    });
   });
 });
@@ -5,6 +5,51 @@ import { join } from 'path';
 export interface ToolConfig {
   command?: string;
   defaultFlags?: string[];
+
+  /** Model to start with - change it for the session with /model (tool default if unset) */
+  model?: string;
+  /** Forward template used when this tool receives a /forward without --as, e.g. "implement" */
+  forwardTemplate?: string;
+  /** Standing instructions given to the tool in every session, e.g. "You are the architect" - change it with /role */
+  role?: string;
+  /** Permission profile print mode starts in, e.g. "readonly" or "edit" - change it with /mode */
+  mode?: string;
+  /** Print-mode arguments per permission profile - replaces built-in profiles of the same name, or adds new ones */
+  profiles?: Record<string, string[]>;
+
+  // Fields below define a config-only tool (see GenericCliAdapter) - no TypeScript needed
+
+  /** Display name shown in the UI (defaults to the tool name) */
+  displayName?: string;
+  /** Print-mode arguments. "{prompt}" is replaced with the prompt (appended if absent) */
+  args?: string[];
+  /** Print-mode arguments for prompts too large for argv, which then go to stdin, e.g. ["run", "-"] (argv only if unset) */
+  stdinArgs?: string[];
+  /** Arguments added to continue the previous conversation (print mode and PTY) */
+  resumeArgs?: string[];
+  /** Arguments that select a model (print mode and PTY). "{model}" is replaced with the model name */
+  modelArgs?: string[];
+  /** Arguments that pass the role as a system prompt (print mode and PTY). "{role}" is replaced with the role */
+  roleArgs?: string[];
+  /** How to read print-mode output: plain text (default) or JSON */
+  outputFormat?: 'text' | 'json';
+  /** Dot path to the answer in JSON output, e.g. "result" or "choices.0.message.content" */
+  responsePath?: string;
+  /** Regex source matching the tool's interactive input prompt */
+  promptPattern?: string;
+  /** Fallback idle timeout in ms for interactive response capture */
+  idleTimeout?: number;
+  /** Time in ms to wait for the tool to start in interactive mode */
+  startupDelay?: number;
+  /** Color name (e.g. "brightGreen") or ANSI escape code */
+  color?: string;
+
+  // Fields below define an HTTP chat tool (see HttpChatAdapter) instead of a CLI
+
+  /** OpenAI-compatible chat completions URL, e.g. "http://localhost:11434/v1/chat/completions" */
+  url?: string;
+  /** Name of the environment variable holding the API key (keys are never stored in config) */
+  apiKeyEnv?: string;
 }
 
 export interface VersionCache {
@@ -12,14 +57,29 @@ export interface VersionCache {
   latestVersion: string;
 }
 
+export interface DebateConfig {
+  /** Phrase a tool replies with to end a /debate early (case insensitive) */
+  stopPhrase?: string;
+  /** Optional question asked between rounds to decide if the tools agree (answered YES/NO) */
+  judgePrompt?: string;
+}
+
 export interface Config {
   defaultTool: string;
   tools: {
     [name: string]: ToolConfig;
   };
   versionCache?: VersionCache;
+  debate?: DebateConfig;
+  /** Forward templates by name, for /forward --as - replaces built-in ones of the same name, or adds new ones */
+  forwardTemplates?: Record<string, string>;
 }
 
+export const DEFAULT_DEBATE_STOP_PHRASE = 'I AGREE';
+
+/** Built-in tools, used for validation when no adapter list is given */
+export const BUILT_IN_TOOLS = ['claude', 'gemini', 'codex', 'aider'];
+
 const DEFAULT_CONFIG: Config = {
   defaultTool: 'claude',
   tools: {
@@ -31,6 +91,14 @@ const DEFAULT_CONFIG: Config = {
       command: 'gemini',
       defaultFlags: ['-o', 'text'],
     },
+    codex: {
+      command: 'codex',
+      defaultFlags: ['exec', '--json'],
+    },
+    aider: {
+      command: 'aider',
+      defaultFlags: ['--no-pretty', '--no-stream', '--message'],
+    },
   },
 };
 
@@ -96,11 +164,12 @@ export function saveConfig(config: Config): void {
 
 /**
  * Get the default tool (checks env var first, then config)
+ * @param validTools Registered tool names (e.g. registry.getNames())
  */
-export function getDefaultTool(): string {
+export function getDefaultTool(validTools: string[] = BUILT_IN_TOOLS): string {
   // Environment variable takes priority
   const envTool = process.env.AIC_DEFAULT_TOOL;
-  if (envTool && ['claude', 'gemini'].includes(envTool.toLowerCase())) {
+  if (envTool && validTools.includes(envTool.toLowerCase())) {
     return envTool.toLowerCase();
   }
   
@@ -111,9 +180,12 @@ export function getDefaultTool(): string {
 
 /**
  * Set the default tool and save to config
+ * @param validTools Registered tool names (e.g. registry.getNames())
  */
-export function setDefaultTool(tool: string): { success: boolean; message: string } {
-  const validTools = ['claude', 'gemini'];
+export function setDefaultTool(
+  tool: string,
+  validTools: string[] = BUILT_IN_TOOLS
+): { success: boolean; message: string } {
   const normalizedTool = tool.toLowerCase();
 
   if (!validTools.includes(normalizedTool)) {
@@ -150,6 +222,45 @@ export function setVersionCache(cache: VersionCache): void {
   saveConfig(config);
 }
 
+/**
+ * Get /debate settings, with the default stop phrase filled in
+ */
+export function getDebateConfig(): { stopPhrase: string; judgePrompt?: string } {
+  const config = loadConfig();
+  return {
+    stopPhrase: config.debate?.stopPhrase?.trim() || DEFAULT_DEBATE_STOP_PHRASE,
+    judgePrompt: config.debate?.judgePrompt?.trim() || undefined,
+  };
+}
+
+/**
+ * Get a tool's config entry, if it has one
+ */
+export function getToolConfig(tool: string): ToolConfig | undefined {
+  return loadConfig().tools[tool];
+}
+
+/**
+ * Get the model configured for a tool, if any
+ */
+export function getToolModel(tool: string): string | undefined {
+  return getToolConfig(tool)?.model?.trim() || undefined;
+}
+
+/**
+ * Get the forward templates defined in config (built-in ones live in forward.ts)
+ */
+export function getForwardTemplates(): Record<string, string> {
+  return loadConfig().forwardTemplates ?? {};
+}
+
+/**
+ * Get the role configured for a tool, if any
+ */
+export function getToolRole(tool: string): string | undefined {
+  return getToolConfig(tool)?.role?.trim() || undefined;
+}
+
 // Cache version checks for 24 hours
 const VERSION_CHECK_INTERVAL = 24 * 60 * 60 * 1000;
 
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DEBATE_ROUNDS,
+  MAX_DEBATE_ROUNDS,
+  parseDebateArgs,
+  buildDebateOpeningPrompt,
+  buildDebateReplyPrompt,
+  buildJudgePrompt,
+  buildDebateSummaryPrompt,
+  isAgreement,
+  isJudgeAffirmative,
+} from './debate.js';
+
+describe('debate', () => {
+  describe('parseDebateArgs', () => {
+    it('parses rounds and topic', () => {
+      expect(parseDebateArgs('5 tabs vs spaces')).toEqual({ rounds: 5, topic: 'tabs vs spaces' });
+    });
+
+    it('uses default rounds when omitted', () => {
+      expect(parseDebateArgs('tabs vs spaces')).toEqual({
+        rounds: DEFAULT_DEBATE_ROUNDS,
+        topic: 'tabs vs spaces',
+      });
+    });
+
+    it('keeps numbers inside the topic', () => {
+      expect(parseDebateArgs('2 use 4 spaces?')).toEqual({ rounds: 2, topic: 'use 4 spaces?' });
+    });
+
+    it('reads a topic starting with a number that is no valid round count as the topic', () => {
+      expect(parseDebateArgs('2024 roadmap priorities')).toEqual({
+        rounds: DEFAULT_DEBATE_ROUNDS,
+        topic: '2024 roadmap priorities',
+      });
+      expect(parseDebateArgs('0 downtime deploys')).toEqual({ rounds: DEFAULT_DEBATE_ROUNDS, topic: '0 downtime deploys' });
+      expect(parseDebateArgs(`${MAX_DEBATE_ROUNDS + 1} topic`)).toEqual({
+        rounds: DEFAULT_DEBATE_ROUNDS,
+        topic: `${MAX_DEBATE_ROUNDS + 1} topic`,
+      });
+    });
+
+    it('still takes a valid round count in front of a numeric topic', () => {
+      expect(parseDebateArgs('2 2024 roadmap priorities')).toEqual({ rounds: 2, topic: '2024 roadmap priorities' });
+    });
+
+    it('rejects a missing topic', () => {
+      expect(parseDebateArgs('3')).toContain('topic');
+      expect(parseDebateArgs('   ')).toContain('topic');
+    });
+  });
+
+  describe('prompts', () => {
+    it('opening prompt includes topic, rounds and stop phrase', () => {
+      const prompt = buildDebateOpeningPrompt('Use Redis?', 3, 'I AGREE');
+      expect(prompt).toContain('Topic: Use Redis?');
+      expect(prompt).toContain('3-round');
+      expect(prompt).toContain('"I AGREE"');
+    });
+
+    it('reply prompt forwards the previous response with round info', () => {
+      const prompt = buildDebateReplyPrompt('Gemini CLI', 'Use Memcached', 2, 3, 'I AGREE');
+      expect(prompt).toContain('Round 2 of 3');
+      expect(prompt).toContain('Another AI assistant (Gemini CLI) responded');
+      expect(prompt).toContain('---\nUse Memcached\n---');
+      expect(prompt).toContain('"I AGREE"');
+    });
+
+    it('judge prompt includes both responses and asks for YES/NO', () => {
+      const prompt = buildJudgePrompt(
+        'Do they agree?',
+        { displayName: 'Claude Code', content: 'A' },
+        { displayName: 'Gemini CLI', content: 'B' }
+      );
+      expect(prompt.startsWith('Do they agree?')).toBe(true);
+      expect(prompt).toContain('Claude Code:\n---\nA\n---');
+      expect(prompt).toContain('Gemini CLI:\n---\nB\n---');
+      expect(prompt).toContain('YES or NO');
+    });
+
+    it('summary prompt mentions the topic', () => {
+      expect(buildDebateSummaryPrompt('Use Redis?')).toContain('"Use Redis?"');
+    });
+  });
+
+  describe('isAgreement', () => {
+    it('matches the stop phrase on its own line', () => {
+      expect(isAgreement('Good points.\n\nI AGREE', 'I AGREE')).toBe(true);
+    });
+
+    it('ignores case, emphasis and punctuation', () => {
+      expect(isAgreement('**I agree.**', 'I AGREE')).toBe(true);
+    });
+
+    it('does not match the phrase inside a sentence', () => {
+      expect(isAgreement('I agree with part of this, but not the cache TTL.', 'I AGREE')).toBe(false);
+    });
+
+    it('never matches an empty stop phrase', () => {
+      expect(isAgreement('', '')).toBe(false);
+    });
+  });
+
+  describe('isJudgeAffirmative', () => {
+    it('accepts YES answers', () => {
+      expect(isJudgeAffirmative('YES')).toBe(true);
+      expect(isJudgeAffirmative('**Yes** - they agree')).toBe(true);
+    });
+
+    it('rejects NO and other answers', () => {
+      expect(isJudgeAffirmative('NO')).toBe(false);
+      expect(isJudgeAffirmative('Not yet, yes maybe later')).toBe(false);
+    });
+  });
+});
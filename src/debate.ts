@@ -0,0 +1,116 @@
+/**
+ * Prompt building and argument parsing for /debate - an automatic multi-round
+ * exchange between tools that replaces typing /forward over and over.
+ */
+
+export const DEFAULT_DEBATE_ROUNDS = 3;
+export const MAX_DEBATE_ROUNDS = 10;
+
+export interface DebateArgs {
+  rounds: number;
+  topic: string;
+}
+
+/**
+ * Parse "/debate [rounds] <topic>" arguments. A leading number is the round count only
+ * if it's a valid one (1 to MAX_DEBATE_ROUNDS) - otherwise it starts the topic ("2024 roadmap").
+ * Returns an error message string if the arguments are invalid.
+ */
+export function parseDebateArgs(argsString: string): DebateArgs | string {
+  const trimmed = argsString.trim();
+  const match = trimmed.match(/^(\d+)(?:\s+([\s\S]*))?$/);
+
+  let rounds = DEFAULT_DEBATE_ROUNDS;
+  let topic = trimmed;
+  if (match) {
+    const requested = parseInt(match[1], 10);
+    if (requested >= 1 && requested <= MAX_DEBATE_ROUNDS) {
+      rounds = requested;
+      topic = (match[2] || '').trim();
+    }
+  }
+
+  if (!topic) {
+    return 'Please provide a topic to debate';
+  }
+
+  return { rounds, topic };
+}
+
+/**
+ * Instruction appended to every debate turn so tools know how to end the debate
+ */
+function stopInstruction(stopPhrase: string): string {
+  return `If you fully agree with the other assistant and have nothing to add, reply with "${stopPhrase}" on its own line.`;
+}
+
+/**
+ * Prompt for the very first turn of a debate
+ */
+export function buildDebateOpeningPrompt(topic: string, totalRounds: number, stopPhrase: string): string {
+  return `You are taking part in a ${totalRounds}-round discussion with another AI assistant. ` +
+    `Give your position on the following topic. The other assistant will respond to your answer.\n\n` +
+    `Topic: ${topic}\n\n` +
+    stopInstruction(stopPhrase);
+}
+
+/**
+ * Prompt for every later turn - the previous speaker's response, forwarded
+ */
+export function buildDebateReplyPrompt(
+  sourceDisplayName: string,
+  content: string,
+  round: number,
+  totalRounds: number,
+  stopPhrase: string
+): string {
+  return `Round ${round} of ${totalRounds}. Another AI assistant (${sourceDisplayName}) responded:\n\n---\n${content}\n---\n\n` +
+    `Critique their position, point out anything you disagree with, and refine your own answer.\n\n` +
+    stopInstruction(stopPhrase);
+}
+
+/**
+ * Prompt for the judge check between rounds. The judge prompt from config is
+ * followed by the last two responses and must be answered YES or NO.
+ */
+export function buildJudgePrompt(
+  judgePrompt: string,
+  first: { displayName: string; content: string },
+  second: { displayName: string; content: string }
+): string {
+  return `${judgePrompt}\n\n` +
+    `${first.displayName}:\n---\n${first.content}\n---\n\n` +
+    `${second.displayName}:\n---\n${second.content}\n---\n\n` +
+    `Answer with only YES or NO.`;
+}
+
+/**
+ * Prompt for the closing summary turn
+ */
+export function buildDebateSummaryPrompt(topic: string): string {
+  return `The discussion about "${topic}" is over. Summarize it: the points both assistants agreed on, ` +
+    `any remaining disagreements, and your final recommendation.`;
+}
+
+/**
+ * Normalize a line for stop phrase comparison - ignore case, markdown emphasis and punctuation
+ */
+function normalizeForMatch(text: string): string {
+  return text.replace(/[*_`"'.!,:]/g, '').replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+/**
+ * Check whether a response ends the debate: the stop phrase appears on its own line
+ */
+export function isAgreement(response: string, stopPhrase: string): boolean {
+  const phrase = normalizeForMatch(stopPhrase);
+  if (!phrase) return false;
+  return response.split('\n').some(line => normalizeForMatch(line) === phrase);
+}
+
+/**
+ * Check whether a judge answered YES
+ */
+export function isJudgeAffirmative(response: string): boolean {
+  return /^\W*yes\b/i.test(response.trim());
+}
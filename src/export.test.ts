@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import type { SessionData } from './session-store.js';
+import { exportSession, getExportEntries, getFormatFromPath, getDefaultExportPath, isSafeUrl } from './export.js';
+
+const START = Date.UTC(2026, 0, 15, 9, 30, 0);
+
+const SESSION: SessionData = {
+  id: 'abc123',
+  createdAt: START,
+  updatedAt: START + 60_000,
+  cwd: '/work/project',
+  activeTool: 'claude',
+  roles: { gemini: 'You are a security reviewer.' },
+  history: [
+    { tool: 'claude', role: 'user', content: 'design a cache', chain: 1, timestamp: START },
+    {
+      tool: 'claude',
+      role: 'assistant',
+      content: 'Use **Redis** <script>alert(1)</script>',
+      chain: 1,
+      timestamp: START + 5_000,
+      model: 'sonnet',
+      usage: { inputTokens: 1200, outputTokens: 300 },
+      costUsd: 0.01,
+      durationMs: 4_200,
+      changes: { files: ['cache.ts'] },
+    },
+    { tool: 'gemini', role: 'user', content: 'Another AI assistant ...', chain: 1, timestamp: START + 6_000 },
+    { tool: 'gemini', role: 'assistant', content: 'Looks fine', chain: 1 },
+  ],
+  adapters: {},
+};
+
+const displayName = (tool: string) => ({ claude: 'Claude Code', gemini: 'Gemini CLI' }[tool] ?? tool);
+
+describe('getExportEntries', () => {
+  it('marks later prompts of a forward chain as forwarded', () => {
+    expect(getExportEntries(SESSION.history).map(entry => [entry.number, entry.forwarded])).toEqual([
+      [1, false], [2, false], [3, true], [4, false],
+    ]);
+  });
+
+  it('uses the recorded mode and sources where there are any', () => {
+    const entries = getExportEntries([
+      { id: 'a', tool: 'claude', role: 'assistant', content: 'done', mode: 'interactive' },
+      { id: 'b', tool: 'gemini', role: 'user', content: 'review this', mode: 'forward', forwardedFrom: ['a'], chain: 1 },
+    ]);
+    expect(entries[1]).toMatchObject({ forwarded: true, forwardedFrom: [1] });
+  });
+
+  it('treats prompts outside a chain as typed by the user', () => {
+    const entries = getExportEntries([
+      { tool: 'claude', role: 'user', content: 'hi' },
+      { tool: 'gemini', role: 'user', content: 'hi' },
+    ]);
+    expect(entries.map(entry => entry.forwarded)).toEqual([false, false]);
+  });
+});
+
+describe('getFormatFromPath', () => {
+  it('reads the format from the extension', () => {
+    expect(getFormatFromPath('notes/chat.MD')).toBe('md');
+    expect(getFormatFromPath('chat.markdown')).toBe('md');
+    expect(getFormatFromPath('chat.htm')).toBe('html');
+    expect(getFormatFromPath('chat.json')).toBe('json');
+    expect(getFormatFromPath('chat.txt')).toBeUndefined();
+  });
+
+  it('names default exports after the session', () => {
+    expect(getDefaultExportPath(SESSION, 'html')).toBe('aic-session-abc123.html');
+  });
+});
+
+describe('exportSession', () => {
+  it('writes Markdown with speakers, details, roles and changes', () => {
+    const markdown = exportSession(SESSION, 'md', displayName);
+
+    expect(markdown).toContain('# aic session abc123');
+    expect(markdown).toContain('- Started: 2026-01-15 09:30:00 UTC');
+    expect(markdown).toContain('- Messages: 4 · 1 request · 1.2k in · 300 out · $0.0100');
+    expect(markdown).toContain('- Role of Gemini CLI: You are a security reviewer.');
+    expect(markdown).toContain('### #1 You → Claude Code');
+    expect(markdown).toContain('### #3 Forwarded → Gemini CLI');
+    expect(markdown).toContain('*2026-01-15 09:30:05 UTC · chain #1 · sonnet · 1.2k in · 300 out');
+    expect(markdown).toContain('> ✎ Claude Code changed cache.ts');
+  });
+
+  it('writes JSON with numbers and forward flags', () => {
+    const data = JSON.parse(exportSession(SESSION, 'json'));
+
+    expect(data.id).toBe('abc123');
+    expect(data.roles).toEqual({ gemini: 'You are a security reviewer.' });
+    expect(data.messages[2]).toMatchObject({ number: 3, tool: 'gemini', role: 'user', forwarded: true, timestamp: START + 6_000 });
+    expect(data.messages[1].usage).toEqual({ inputTokens: 1200, outputTokens: 300 });
+  });
+
+  it('writes a self-contained HTML page without running raw HTML', () => {
+    const html = exportSession(SESSION, 'html', displayName);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<strong>#1 You → Claude Code</strong>');
+    expect(html).toContain('<strong>Redis</strong>');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+
+  it('keeps only safe links and images in HTML', () => {
+    const html = exportSession({
+      ...SESSION,
+      history: [{
+        tool: 'claude',
+        role: 'assistant',
+        content: [
+          '[docs](https://example.com/docs) [readme](./README.md) [mail](mailto:dev@example.com)',
+          '[click](javascript:alert(1)) [sneaky](javascript&#58;alert(1)) ![pixel](data:image/svg+xml,x)',
+        ].join('\n\n'),
+      }],
+    }, 'html', displayName);
+
+    expect(html).toContain('<a href="https://example.com/docs">docs</a>');
+    expect(html).toContain('<a href="./README.md">readme</a>');
+    expect(html).toContain('<a href="mailto:dev@example.com">mail</a>');
+    expect(html).not.toMatch(/javascript|data:/);
+    expect(html).toContain('click sneaky pixel');
+  });
+});
+
+describe('isSafeUrl', () => {
+  it('allows http, https, mailto and relative URLs', () => {
+    expect(isSafeUrl('https://example.com')).toBe(true);
+    expect(isSafeUrl('HTTP://example.com')).toBe(true);
+    expect(isSafeUrl('mailto:dev@example.com')).toBe(true);
+    expect(isSafeUrl('docs/setup.md#install')).toBe(true);
+    expect(isSafeUrl('#message-3')).toBe(true);
+  });
+
+  it('rejects other schemes, however they are written', () => {
+    expect(isSafeUrl('javascript:alert(1)')).toBe(false);
+    expect(isSafeUrl('JavaScript:alert(1)')).toBe(false);
+    expect(isSafeUrl('java\tscript:alert(1)')).toBe(false);
+    expect(isSafeUrl('&#106;avascript&#x3A;alert(1)')).toBe(false);
+    expect(isSafeUrl('vbscript:msgbox')).toBe(false);
+    expect(isSafeUrl('data:text/html,<script>')).toBe(false);
+  });
+});
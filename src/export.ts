@@ -0,0 +1,269 @@
+import { Marked } from 'marked';
+import { extname } from 'path';
+import type { Message, SessionData } from './session-store.js';
+import { describeChanges } from './forward.js';
+import { getForwardSources, formatMessageNumbers } from './history.js';
+import { formatResultSummary, summarizeUsage, formatTokens, formatCost } from './usage.js';
+
+export const EXPORT_FORMATS = ['md', 'json', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * A history message as exported: numbered like /history, and marked if it was
+ * a forward rather than a prompt the user typed
+ */
+export interface ExportEntry {
+  number: number;
+  message: Message;
+  /** A prompt that continued a forward chain (a /forward or debate turn) */
+  forwarded: boolean;
+  /** Numbers of the messages a forwarded prompt carried, where recorded */
+  forwardedFrom: number[];
+}
+
+/** Turns a tool name into the name to show, e.g. "claude" into "Claude Code" */
+export type DisplayNameResolver = (tool: string) => string;
+
+// Links an exported page may contain - anything else (javascript:, data:, ...) could run scripts
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto'];
+
+// Answers are rendered as they are, except raw HTML and unsafe links - a transcript shouldn't run scripts
+const htmlMarked = new Marked().use({
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, tokens }) {
+      // Unsafe links keep their text, without the link
+      return isSafeUrl(href) ? false : this.parser.parseInline(tokens);
+    },
+    image({ href, text }) {
+      return isSafeUrl(href) ? false : escapeHtml(text);
+    },
+  },
+});
+
+/**
+ * Whether a link may go into an exported page: http(s), mailto or a relative URL.
+ * Character references are decoded first, as the browser would ("javascript&#58;...").
+ */
+export function isSafeUrl(url: string): boolean {
+  const decoded = url
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex: string) => fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, code: string) => fromCodePoint(Number(code)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&(tab|newline);/gi, '')
+    // Browsers ignore whitespace and control characters inside a scheme
+    .replace(/[\u0000-\u0020\u007f]/g, '');
+  const scheme = decoded.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+/** The character of a character reference - nothing for code points that don't exist */
+function fromCodePoint(code: number): string {
+  return code <= 0x10ffff ? String.fromCodePoint(code) : '';
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * The export format a file name implies (.md, .markdown, .json, .html, .htm), if any
+ */
+export function getFormatFromPath(path: string): ExportFormat | undefined {
+  const extension = extname(path).toLowerCase().slice(1);
+  if (extension === 'markdown') return 'md';
+  if (extension === 'htm') return 'html';
+  return isExportFormat(extension) ? extension : undefined;
+}
+
+/**
+ * File name an export gets when no path is given
+ */
+export function getDefaultExportPath(session: SessionData, format: ExportFormat): string {
+  return `aic-session-${session.id}.${format}`;
+}
+
+/**
+ * Number the history and mark forwards. Messages saved by older versions don't
+ * record their mode - for those, only the first prompt of a forward chain counts
+ * as typed by the user, later prompts carried another tool's answer.
+ */
+export function getExportEntries(history: Message[]): ExportEntry[] {
+  const chainsWithPrompt = new Set<number>();
+  return history.map((message, index) => {
+    let forwarded = message.role === 'user' && message.mode === 'forward';
+    if (message.role === 'user' && message.mode === undefined && message.chain !== undefined) {
+      forwarded = chainsWithPrompt.has(message.chain);
+    }
+    if (message.role === 'user' && message.chain !== undefined) {
+      chainsWithPrompt.add(message.chain);
+    }
+    return { number: index + 1, message, forwarded, forwardedFrom: getForwardSources(history, message) };
+  });
+}
+
+/**
+ * Render a session in an export format
+ */
+export function exportSession(session: SessionData, format: ExportFormat, displayName: DisplayNameResolver = tool => tool): string {
+  switch (format) {
+    case 'json':
+      return exportJson(session);
+    case 'html':
+      return exportHtml(session, displayName);
+    case 'md':
+      return exportMarkdown(session, displayName);
+  }
+}
+
+/** "2026-10-19 14:03:12 UTC" - exports are shared, so no local time zone */
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 19).replace('T', ' ') + ' UTC';
+}
+
+/** "You → Claude Code" for prompts, the tool's name for its answers */
+function getSpeaker(entry: ExportEntry, displayName: DisplayNameResolver): string {
+  const tool = displayName(entry.message.tool);
+  if (entry.message.role === 'assistant') return tool;
+  return entry.forwarded ? `Forwarded → ${tool}` : `You → ${tool}`;
+}
+
+/** Time, provenance, forward chain, debate round and reported usage of a message */
+function getDetails({ message, forwardedFrom }: ExportEntry): string[] {
+  const details: string[] = [];
+  if (message.timestamp !== undefined) details.push(formatTimestamp(message.timestamp));
+  if (forwardedFrom.length > 0) details.push(`forwarded from ${formatMessageNumbers(forwardedFrom)}`);
+  if (message.mode === 'interactive' || message.mode === 'broadcast') details.push(message.mode);
+  if (message.chain !== undefined) details.push(`chain #${message.chain}`);
+  if (message.round !== undefined) details.push(`round ${message.round}`);
+  if (message.durationMs !== undefined) {
+    details.push(formatResultSummary({ ...message, text: message.content, durationMs: message.durationMs }));
+  }
+  return details;
+}
+
+/** Session-level facts shown at the top of Markdown and HTML exports */
+function getSummary(session: SessionData, displayName: DisplayNameResolver): string[] {
+  const lines = [`Directory: ${session.cwd}`];
+  if (session.createdAt) lines.push(`Started: ${formatTimestamp(session.createdAt)}`);
+  if (session.updatedAt) lines.push(`Last updated: ${formatTimestamp(session.updatedAt)}`);
+
+  const totals = summarizeUsage(session.history);
+  let messages = `Messages: ${session.history.length}`;
+  if (totals.requests > 0) {
+    messages += ` · ${totals.requests} request${totals.requests === 1 ? '' : 's'}`;
+  }
+  if (totals.inputTokens + totals.outputTokens > 0) {
+    messages += ` · ${formatTokens(totals.inputTokens)} in · ${formatTokens(totals.outputTokens)} out`;
+  }
+  if (totals.unpricedRequests < totals.requests) {
+    messages += ` · ${formatCost(totals)}`;
+  }
+  lines.push(messages);
+
+  for (const [tool, role] of Object.entries(session.roles ?? {})) {
+    lines.push(`Role of ${displayName(tool)}: ${role}`);
+  }
+  return lines;
+}
+
+function exportMarkdown(session: SessionData, displayName: DisplayNameResolver): string {
+  const lines = [`# aic session ${session.id}`, '', ...getSummary(session, displayName).map(line => `- ${line}`)];
+
+  for (const entry of getExportEntries(session.history)) {
+    const { message } = entry;
+    lines.push('', '---', '', `### #${entry.number} ${getSpeaker(entry, displayName)}`);
+
+    const details = getDetails(entry);
+    if (details.length > 0) {
+      lines.push('', `*${details.join(' · ')}*`);
+    }
+
+    lines.push('', message.content.trim());
+
+    if (message.changes) {
+      lines.push('', `> ✎ ${describeChanges(displayName(message.tool), message.changes)}`);
+    }
+    for (const warning of message.warnings ?? []) {
+      lines.push('', `> ⚠ ${warning}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function exportJson(session: SessionData): string {
+  return JSON.stringify({
+    id: session.id,
+    cwd: session.cwd,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    roles: session.roles ?? {},
+    messages: getExportEntries(session.history).map(({ number, message, forwarded }) => ({
+      number,
+      ...message,
+      forwarded,
+    })),
+  }, null, 2) + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 52rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #1f2328; }
+  .meta { color: #59636e; padding-left: 1.2rem; }
+  article { border: 1px solid #d1d9e0; border-radius: 6px; margin: 1.5rem 0; }
+  article.user { background: #f6f8fa; }
+  article header { padding: 0.5rem 1rem; border-bottom: 1px solid #d1d9e0; }
+  article header .details { color: #59636e; font-size: 0.85em; display: block; }
+  article .content { padding: 0 1rem; overflow-x: auto; }
+  article .note { padding: 0 1rem 0.5rem; color: #59636e; }
+  pre { background: #eff1f3; padding: 0.75rem; border-radius: 6px; overflow-x: auto; }
+`;
+
+function exportHtml(session: SessionData, displayName: DisplayNameResolver): string {
+  const title = `aic session ${escapeHtml(session.id)}`;
+  const parts = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    `<ul class="meta">${getSummary(session, displayName).map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`,
+  ];
+
+  for (const entry of getExportEntries(session.history)) {
+    const { message } = entry;
+    const details = getDetails(entry);
+    const notes = [
+      ...(message.changes ? [`✎ ${describeChanges(displayName(message.tool), message.changes)}`] : []),
+      ...(message.warnings ?? []).map(warning => `⚠ ${warning}`),
+    ];
+
+    parts.push(
+      `<article class="${message.role}" id="message-${entry.number}">`,
+      '<header>',
+      `<strong>#${entry.number} ${escapeHtml(getSpeaker(entry, displayName))}</strong>`,
+      details.length > 0 ? `<span class="details">${escapeHtml(details.join(' · '))}</span>` : '',
+      '</header>',
+      `<div class="content">${htmlMarked.parse(message.content) as string}</div>`,
+      ...notes.map(note => `<p class="note">${escapeHtml(note)}</p>`),
+      '</article>',
+    );
+  }
+
+  parts.push('</body>', '</html>');
+  return parts.filter(part => part !== '').join('\n') + '\n';
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildForwardPrompt,
+  buildHistoryForwardPrompt,
+  parseHistorySelection,
+  describeChanges,
+  renderForwardTemplate,
+  getForwardTemplate,
+  getForwardTemplateNames,
+  BUILT_IN_FORWARD_TEMPLATES,
+} from './forward.js';
+
+describe('buildForwardPrompt', () => {
+  it('wraps the response with the source tool name', () => {
+    const prompt = buildForwardPrompt('Claude Code', 'Use Redis');
+
+    expect(prompt).toBe(
+      'Another AI assistant (Claude Code) provided this response. Please review and share your thoughts:\n\n---\nUse Redis\n---'
+    );
+  });
+
+  it('appends additional context when provided', () => {
+    const prompt = buildForwardPrompt('Gemini CLI', 'Use Redis', '  focus on cost  ');
+
+    expect(prompt).toContain('\n\nAdditional context: focus on cost');
+  });
+
+  it('omits additional context when blank', () => {
+    const prompt = buildForwardPrompt('Gemini CLI', 'Use Redis', '   ');
+
+    expect(prompt).not.toContain('Additional context');
+  });
+
+  it('mentions committed changes before the additional context', () => {
+    const prompt = buildForwardPrompt('Aider', 'Fixed it', 'check tests', {
+      commit: 'abc1234',
+      files: ['src/a.py', 'src/b.py'],
+    });
+
+    expect(prompt).toContain('---\n\nAider committed abc1234 touching src/a.py, src/b.py.\n\nAdditional context: check tests');
+  });
+
+  it('omits empty changes', () => {
+    const prompt = buildForwardPrompt('Aider', 'Nothing to do', '', { files: [] });
+
+    expect(prompt).not.toContain('committed');
+  });
+});
+
+describe('describeChanges', () => {
+  it('describes a commit without file list', () => {
+    expect(describeChanges('Aider', { commit: 'abc1234', files: [] })).toBe('Aider committed abc1234');
+  });
+
+  it('describes uncommitted edits', () => {
+    expect(describeChanges('Aider', { files: ['main.py'] })).toBe('Aider changed main.py (not committed)');
+  });
+});
+
+describe('parseHistorySelection', () => {
+  it('reads a single entry and leaves the rest of the arguments', () => {
+    expect(parseHistorySelection(['#7', 'gemini', 'check', 'this'], 10)).toEqual({
+      selection: { first: 7, last: 7 },
+      rest: ['gemini', 'check', 'this'],
+    });
+  });
+
+  it('reads ranges with or without a second #', () => {
+    expect(parseHistorySelection(['#5-#9'], 10).selection).toEqual({ first: 5, last: 9 });
+    expect(parseHistorySelection(['#5-9'], 10).selection).toEqual({ first: 5, last: 9 });
+  });
+
+  it('selects the last entries with --last, at most the whole history', () => {
+    expect(parseHistorySelection(['--last', '3', 'claude'], 10)).toEqual({
+      selection: { first: 8, last: 10 },
+      rest: ['claude'],
+    });
+    expect(parseHistorySelection(['--last', '30'], 10).selection).toEqual({ first: 1, last: 10 });
+  });
+
+  it('leaves arguments without a selection alone', () => {
+    expect(parseHistorySelection(['gemini', '#1', 'is', 'wrong'], 10)).toEqual({ rest: ['gemini', '#1', 'is', 'wrong'] });
+    expect(parseHistorySelection([], 10)).toEqual({ rest: [] });
+  });
+
+  it('rejects selections outside the history', () => {
+    expect(parseHistorySelection(['#12'], 10).error).toBe('History has entries #1-#10');
+    expect(parseHistorySelection(['#0'], 10).error).toBe('History has entries #1-#10');
+    expect(parseHistorySelection(['#9-#5'], 10).error).toContain('backwards');
+    expect(parseHistorySelection(['--last', 'many'], 10).error).toContain('--last needs a number');
+    expect(parseHistorySelection(['#1'], 0).error).toBe('No conversation history yet');
+  });
+});
+
+describe('buildHistoryForwardPrompt', () => {
+  it('numbers the turns it contains', () => {
+    const prompt = buildHistoryForwardPrompt([
+      { number: 5, speaker: 'User', content: 'design a cache' },
+      { number: 6, speaker: 'Claude Code', content: 'Use Redis' },
+    ]);
+
+    expect(prompt).toBe(
+      'Here are turns #5-#6 of a conversation between the user and AI assistants. Please review and share your thoughts:' +
+      '\n\n---\n[#5 User]\ndesign a cache\n\n[#6 Claude Code]\nUse Redis\n---'
+    );
+  });
+
+  it('names a single turn and appends additional context', () => {
+    const prompt = buildHistoryForwardPrompt([{ number: 7, speaker: 'Gemini CLI', content: 'Use Redis' }], ' focus on cost ');
+
+    expect(prompt).toMatch(/^Here is turn #7 of a conversation/);
+    expect(prompt).toContain('---\n\nAdditional context: focus on cost');
+  });
+
+  it('mentions the changes that came with a turn', () => {
+    const prompt = buildHistoryForwardPrompt([
+      { number: 3, speaker: 'Aider', content: 'Fixed it', changes: { commit: 'abc1234', files: ['src/a.py'] } },
+    ]);
+
+    expect(prompt).toContain('Fixed it\n\nAider committed abc1234 touching src/a.py.\n---');
+  });
+});
+
+describe('forward templates', () => {
+  it('lists built-in templates, then those from config', () => {
+    expect(getForwardTemplateNames({ tests: 'Write tests for:\n{content}', review: 'Review:\n{content}' }))
+      .toEqual([...Object.keys(BUILT_IN_FORWARD_TEMPLATES), 'tests']);
+  });
+
+  it('lets config replace a built-in template', () => {
+    expect(getForwardTemplate('review', { review: 'Review:\n{content}' })).toBe('Review:\n{content}');
+    expect(getForwardTemplate('implement')).toBe(BUILT_IN_FORWARD_TEMPLATES.implement);
+    expect(getForwardTemplate('nope')).toBeUndefined();
+  });
+
+  it('renders the review template exactly like the default envelope', () => {
+    const changes = { commit: 'abc1234', files: ['src/a.py'] };
+    expect(renderForwardTemplate(BUILT_IN_FORWARD_TEMPLATES.review, {
+      source: 'Aider',
+      content: 'Fixed it',
+      note: 'check tests',
+      changes,
+    })).toBe(buildForwardPrompt('Aider', 'Fixed it', 'check tests', changes));
+  });
+
+  it('fills in every placeholder', () => {
+    const template = '{source} -> {target} in {cwd} on {branch}\n{content}\nNote: {note}\n{changes}';
+    const prompt = renderForwardTemplate(template, {
+      source: 'Gemini CLI',
+      target: 'Claude Code',
+      content: 'Use Redis',
+      note: ' keep it small ',
+      changes: { files: ['cache.ts'] },
+      cwd: '/work/app',
+      branch: 'main',
+    });
+
+    expect(prompt).toBe(
+      'Gemini CLI -> Claude Code in /work/app on main\nUse Redis\nNote: keep it small\nGemini CLI changed cache.ts (not committed)'
+    );
+  });
+
+  it('leaves placeholders inside the forwarded content alone', () => {
+    const prompt = renderForwardTemplate('{content} / {note}', { source: 'Claude Code', content: 'use {note} here', note: 'hi' });
+    expect(prompt).toBe('use {note} here / hi');
+  });
+
+  it('empties placeholders without a value', () => {
+    expect(renderForwardTemplate('[{branch}] {content}', { source: 'Claude Code', content: 'x' })).toBe('[] x');
+  });
+});
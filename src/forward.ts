@@ -0,0 +1,199 @@
+import type { ToolChanges } from './adapters/base.js';
+
+/**
+ * Describe the files a tool changed, e.g. "Aider committed abc123 touching src/a.ts, src/b.ts"
+ */
+export function describeChanges(sourceDisplayName: string, changes: ToolChanges): string {
+  const files = changes.files.join(', ');
+
+  if (changes.commit) {
+    return files
+      ? `${sourceDisplayName} committed ${changes.commit} touching ${files}`
+      : `${sourceDisplayName} committed ${changes.commit}`;
+  }
+  return `${sourceDisplayName} changed ${files} (not committed)`;
+}
+
+/**
+ * Built-in forward templates, selected with /forward --as <name>. Config can replace
+ * them or add more under "forwardTemplates".
+ *
+ * Placeholders: {source} (the tool whose answer is forwarded), {target}, {content},
+ * {note} (the message typed after /forward), {changes} (files the source tool changed),
+ * {cwd} and {branch}. A note or changes the template doesn't place are appended.
+ */
+export const BUILT_IN_FORWARD_TEMPLATES: Record<string, string> = {
+  review: 'Another AI assistant ({source}) provided this response. Please review and share your thoughts:\n\n---\n{content}\n---',
+  implement: 'Another AI assistant ({source}) proposed the following. Implement it, and say where and why you deviated from the proposal:\n\n---\n{content}\n---',
+  'critique-security': 'Another AI assistant ({source}) provided this response. Review it for security problems only - injection, unsafe input handling, leaked secrets, authentication and permission mistakes. List each problem with its severity and a fix:\n\n---\n{content}\n---',
+  summarize: 'Summarize this response from another AI assistant ({source}) in a few bullet points: what it decided, why, and what is still open.\n\n---\n{content}\n---',
+};
+
+/**
+ * Values for a forward template's placeholders
+ */
+export interface ForwardTemplateValues {
+  source: string;
+  target?: string;
+  content: string;
+  note?: string;
+  /** Files the source tool changed */
+  changes?: ToolChanges;
+  cwd?: string;
+  branch?: string;
+}
+
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{(source|target|content|note|changes|cwd|branch)\}/g;
+
+/**
+ * Names of all forward templates: built-in ones, then those from config
+ */
+export function getForwardTemplateNames(custom: Record<string, string> = {}): string[] {
+  return [...new Set([...Object.keys(BUILT_IN_FORWARD_TEMPLATES), ...Object.keys(custom)])];
+}
+
+/**
+ * A forward template by name - one from config replaces the built-in one of the same name
+ */
+export function getForwardTemplate(name: string, custom: Record<string, string> = {}): string | undefined {
+  return custom[name] ?? BUILT_IN_FORWARD_TEMPLATES[name];
+}
+
+/**
+ * Fill in a forward template. Placeholders are replaced in one pass, so a forwarded
+ * answer that contains "{note}" stays as it is.
+ */
+export function renderForwardTemplate(template: string, values: ForwardTemplateValues): string {
+  const changes = hasChanges(values.changes) ? describeChanges(values.source, values.changes) : '';
+  const text: Record<string, string | undefined> = { ...values, note: values.note?.trim(), changes };
+  let forwardPrompt = template.replace(TEMPLATE_PLACEHOLDER_PATTERN, (_, key: string) => text[key] ?? '');
+
+  // Point the reviewer at the actual changes, not just the description of them
+  if (changes && !template.includes('{changes}')) {
+    forwardPrompt += `\n\n${changes}.`;
+  }
+
+  if (values.note?.trim() && !template.includes('{note}')) {
+    forwardPrompt += `\n\nAdditional context: ${values.note.trim()}`;
+  }
+
+  return forwardPrompt;
+}
+
+/**
+ * Build the prompt sent to a tool when forwarding another tool's response.
+ * Shared by /forward in the interactive session and the headless relay command.
+ */
+export function buildForwardPrompt(
+  sourceDisplayName: string,
+  content: string,
+  additionalMessage: string = '',
+  changes?: ToolChanges
+): string {
+  return renderForwardTemplate(BUILT_IN_FORWARD_TEMPLATES.review, {
+    source: sourceDisplayName,
+    content,
+    note: additionalMessage,
+    changes,
+  });
+}
+
+function hasChanges(changes: ToolChanges | undefined): changes is ToolChanges {
+  return changes !== undefined && (Boolean(changes.commit) || changes.files.length > 0);
+}
+
+/**
+ * History entries picked for /forward, numbered from 1 the way /history shows them
+ */
+export interface HistorySelection {
+  first: number;
+  last: number;
+}
+
+/**
+ * A history entry being forwarded
+ */
+export interface ForwardEntry {
+  /** Number of the entry in /history */
+  number: number;
+  /** "User" for the user's prompts, the tool's display name for its answers */
+  speaker: string;
+  content: string;
+  changes?: ToolChanges;
+}
+
+// "#7", "#5-#9" or "#5-9"
+const HISTORY_ENTRY_PATTERN = /^#(\d+)(?:-#?(\d+))?$/;
+
+/**
+ * Read a history selection from the start of /forward's arguments: "#7", "#5-#9"
+ * or "--last 3". Arguments that don't start with one are returned unchanged, without
+ * a selection. Selections outside the history are an error.
+ */
+export function parseHistorySelection(
+  args: string[],
+  historyLength: number
+): { selection?: HistorySelection; rest: string[]; error?: string } {
+  let selection: HistorySelection;
+  let used: number;
+
+  const match = args[0]?.match(HISTORY_ENTRY_PATTERN);
+  if (args[0] === '--last') {
+    const count = Number(args[1]);
+    if (!Number.isInteger(count) || count < 1) {
+      return { rest: args, error: '--last needs a number of entries, e.g. --last 3' };
+    }
+    selection = { first: Math.max(1, historyLength - count + 1), last: historyLength };
+    used = 2;
+  } else if (match) {
+    const first = Number(match[1]);
+    selection = { first, last: match[2] ? Number(match[2]) : first };
+    used = 1;
+  } else {
+    return { rest: args };
+  }
+
+  if (historyLength === 0) {
+    return { rest: args, error: 'No conversation history yet' };
+  }
+  if (selection.first > selection.last) {
+    return { rest: args, error: `#${selection.first}-#${selection.last} is backwards - use #${selection.last}-#${selection.first}` };
+  }
+  if (selection.first < 1 || selection.last > historyLength) {
+    return { rest: args, error: `History has entries #1-#${historyLength}` };
+  }
+  return { selection, rest: args.slice(used) };
+}
+
+/**
+ * The text of forwarded history entries, each headed by its number and speaker
+ */
+export function formatHistoryEntries(entries: ForwardEntry[]): string {
+  return entries.map(entry => {
+    let text = `[#${entry.number} ${entry.speaker}]\n${entry.content}`;
+    if (hasChanges(entry.changes)) {
+      text += `\n\n${describeChanges(entry.speaker, entry.changes)}.`;
+    }
+    return text;
+  }).join('\n\n');
+}
+
+/**
+ * Build the prompt for forwarding history entries picked with #n, #n-#m or --last.
+ * The envelope names the turns it contains, so the receiving tool knows what it is
+ * looking at when the selection mixes prompts and answers.
+ */
+export function buildHistoryForwardPrompt(entries: ForwardEntry[], additionalMessage: string = ''): string {
+  const first = entries[0].number;
+  const last = entries[entries.length - 1].number;
+  const turns = first === last ? `turn #${first}` : `turns #${first}-#${last}`;
+
+  let forwardPrompt = `Here ${entries.length === 1 ? 'is' : 'are'} ${turns} of a conversation between the user and AI assistants. ` +
+    `Please review and share your thoughts:\n\n---\n${formatHistoryEntries(entries)}\n---`;
+
+  if (additionalMessage.trim()) {
+    forwardPrompt += `\n\nAdditional context: ${additionalMessage.trim()}`;
+  }
+
+  return forwardPrompt;
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Readable } from 'stream';
+import { AdapterRegistry, ToolAdapter } from './adapters/base.js';
+import {
+  EXIT_CODES,
+  HeadlessError,
+  resolvePrompt,
+  resolveAdapter,
+  resolveForwardTemplate,
+  ask,
+  relay,
+  formatRelayMarkdown,
+  getExitCode,
+} from './headless.js';
+
+function createMockAdapter(name: string, available: boolean = true): ToolAdapter {
+  return {
+    name,
+    displayName: `${name} Tool`,
+    color: '\x1b[0m',
+    promptPattern: />/,
+    idleTimeout: 1000,
+    startupDelay: 1000,
+    isAvailable: vi.fn().mockResolvedValue(available),
+    send: vi.fn().mockResolvedValue({ text: 'response', durationMs: 10 }),
+    resetContext: vi.fn(),
+    getCommand: vi.fn().mockReturnValue([name]),
+    getInteractiveCommand: vi.fn().mockReturnValue([name]),
+    getPersistentArgs: vi.fn().mockReturnValue([]),
+    cleanResponse: vi.fn().mockImplementation((s: string) => s),
+    hasSession: vi.fn().mockReturnValue(false),
+    setHasSession: vi.fn(),
+  };
+}
+
+describe('headless', () => {
+  describe('resolvePrompt', () => {
+    it('returns the prompt argument as-is', async () => {
+      expect(await resolvePrompt('hello there')).toBe('hello there');
+    });
+
+    it('reads the prompt from stdin when given "-"', async () => {
+      const stdin = Readable.from(['line one\n', 'line two\n']);
+      expect(await resolvePrompt('-', stdin)).toBe('line one\nline two');
+    });
+
+    it('rejects an empty prompt with usage exit code', async () => {
+      const stdin = Readable.from(['   \n']);
+      await expect(resolvePrompt('-', stdin)).rejects.toMatchObject({
+        exitCode: EXIT_CODES.USAGE,
+      });
+    });
+  });
+
+  describe('resolveAdapter', () => {
+    it('returns a registered, available adapter (case insensitive)', async () => {
+      const registry = new AdapterRegistry();
+      const adapter = createMockAdapter('claude');
+      registry.register(adapter);
+
+      expect(await resolveAdapter(registry, 'Claude')).toBe(adapter);
+    });
+
+    it('rejects unknown tools with usage exit code', async () => {
+      const registry = new AdapterRegistry();
+      registry.register(createMockAdapter('claude'));
+
+      await expect(resolveAdapter(registry, 'nope')).rejects.toMatchObject({
+        exitCode: EXIT_CODES.USAGE,
+        message: expect.stringContaining('Valid options: claude'),
+      });
+    });
+
+    it('rejects tools that are not installed', async () => {
+      const registry = new AdapterRegistry();
+      registry.register(createMockAdapter('gemini', false));
+
+      await expect(resolveAdapter(registry, 'gemini')).rejects.toMatchObject({
+        exitCode: EXIT_CODES.UNAVAILABLE,
+      });
+    });
+  });
+
+  describe('ask', () => {
+    it('sends the prompt as a fresh conversation', async () => {
+      const adapter = createMockAdapter('claude');
+
+      const response = await ask(adapter, 'hi', { cwd: '/work' });
+
+      expect(response).toBe('response');
+      expect(adapter.send).toHaveBeenCalledWith('hi', { cwd: '/work', continueSession: false, model: undefined });
+    });
+
+    it('passes the model to the tool', async () => {
+      const adapter = createMockAdapter('claude');
+
+      await ask(adapter, 'hi', { cwd: '/work', model: 'haiku' });
+
+      expect(adapter.send).toHaveBeenCalledWith('hi', { cwd: '/work', continueSession: false, model: 'haiku' });
+    });
+
+    it('wraps tool failures with tool error exit code', async () => {
+      const adapter = createMockAdapter('claude');
+      vi.mocked(adapter.send).mockRejectedValue(new Error('boom'));
+
+      await expect(ask(adapter, 'hi')).rejects.toMatchObject({
+        message: 'boom',
+        exitCode: EXIT_CODES.TOOL_ERROR,
+      });
+    });
+  });
+
+  describe('relay', () => {
+    it('forwards the source answer to the target with the review envelope', async () => {
+      const source = createMockAdapter('gemini');
+      const target = createMockAdapter('claude');
+      vi.mocked(source.send).mockResolvedValue({ text: 'proposal', durationMs: 10 });
+      vi.mocked(target.send).mockResolvedValue({ text: 'review', durationMs: 10 });
+
+      const result = await relay(source, target, 'design a cache', { message: 'be strict' });
+
+      expect(source.send).toHaveBeenCalledWith('design a cache', expect.anything());
+      const forwarded = vi.mocked(target.send).mock.calls[0][0];
+      expect(forwarded).toContain('Another AI assistant (gemini Tool) provided this response');
+      expect(forwarded).toContain('---\nproposal\n---');
+      expect(forwarded).toContain('Additional context: be strict');
+      expect(result.source).toEqual({ tool: 'gemini', displayName: 'gemini Tool', response: 'proposal' });
+      expect(result.target).toEqual({ tool: 'claude', displayName: 'claude Tool', response: 'review' });
+    });
+
+    it('tells the target what the source committed', async () => {
+      const source = { ...createMockAdapter('aider'), getLastChanges: () => ({ commit: 'abc1234', files: ['a.py'] }) };
+      const target = createMockAdapter('claude');
+
+      await relay(source, target, 'fix the bug');
+
+      const forwarded = vi.mocked(target.send).mock.calls[0][0];
+      expect(forwarded).toContain('aider Tool committed abc1234 touching a.py');
+    });
+
+    it('runs each tool with its own model and role', async () => {
+      const source = createMockAdapter('gemini');
+      const target = createMockAdapter('claude');
+
+      await relay(source, target, 'design a cache', {
+        sourceSettings: { model: 'gemini-2.5-pro', role: 'You are the architect.' },
+        targetSettings: { model: 'opus', role: 'You are the reviewer.' },
+      });
+
+      expect(source.send).toHaveBeenCalledWith('design a cache', expect.objectContaining({
+        model: 'gemini-2.5-pro',
+        role: 'You are the architect.',
+        continueSession: false,
+      }));
+      expect(target.send).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+        model: 'opus',
+        role: 'You are the reviewer.',
+      }));
+    });
+
+    it('wraps the answer in the given forward template', async () => {
+      const source = createMockAdapter('gemini');
+      const target = createMockAdapter('claude');
+      vi.mocked(source.send).mockResolvedValue({ text: 'proposal', durationMs: 10 });
+
+      await relay(source, target, 'design a cache', {
+        message: 'be strict',
+        template: '{target}, check what {source} said: {content} ({note})',
+      });
+
+      expect(vi.mocked(target.send).mock.calls[0][0])
+        .toBe('claude Tool, check what gemini Tool said: proposal (be strict)');
+    });
+
+    it('rejects relaying to the same tool', async () => {
+      const adapter = createMockAdapter('claude');
+
+      await expect(relay(adapter, adapter, 'hi')).rejects.toMatchObject({
+        exitCode: EXIT_CODES.USAGE,
+      });
+      expect(adapter.send).not.toHaveBeenCalled();
+    });
+
+    it('does not call the target when the source fails', async () => {
+      const source = createMockAdapter('gemini');
+      const target = createMockAdapter('claude');
+      vi.mocked(source.send).mockRejectedValue(new Error('quota'));
+
+      await expect(relay(source, target, 'hi')).rejects.toThrow('quota');
+      expect(target.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveForwardTemplate', () => {
+    it('prefers a template from config over the built-in one', () => {
+      expect(resolveForwardTemplate('review', { review: 'Check: {content}' })).toBe('Check: {content}');
+      expect(resolveForwardTemplate('summarize')).toContain('Summarize this response');
+      expect(resolveForwardTemplate(undefined)).toBeUndefined();
+    });
+
+    it('rejects an unknown template with usage exit code', () => {
+      expect(() => resolveForwardTemplate('nope')).toThrow(expect.objectContaining({
+        message: expect.stringContaining('Unknown forward template "nope"'),
+        exitCode: EXIT_CODES.USAGE,
+      }));
+    });
+  });
+
+  describe('formatRelayMarkdown', () => {
+    it('renders prompt and both responses as sections', () => {
+      const markdown = formatRelayMarkdown({
+        prompt: 'design a cache',
+        source: { tool: 'gemini', displayName: 'Gemini CLI', response: 'proposal' },
+        target: { tool: 'claude', displayName: 'Claude Code', response: 'review' },
+      });
+
+      expect(markdown).toContain('## Prompt\n\ndesign a cache');
+      expect(markdown).toContain('## Gemini CLI\n\nproposal');
+      expect(markdown).toContain('## Claude Code (reviewing Gemini CLI)\n\nreview');
+    });
+  });
+
+  describe('getExitCode', () => {
+    it('uses the exit code of a HeadlessError', () => {
+      expect(getExitCode(new HeadlessError('x', EXIT_CODES.UNAVAILABLE))).toBe(EXIT_CODES.UNAVAILABLE);
+    });
+
+    it('defaults to tool error for other errors', () => {
+      expect(getExitCode(new Error('x'))).toBe(EXIT_CODES.TOOL_ERROR);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { AdapterRegistry, ToolAdapter } from './adapters/base.js';
+import { readStream, getGitBranch } from './utils.js';
+import { buildForwardPrompt, getForwardTemplate, getForwardTemplateNames, renderForwardTemplate } from './forward.js';
+
+/**
+ * Exit codes for non-interactive commands (aic ask, etc.)
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  /** The tool ran but returned an error */
+  TOOL_ERROR: 1,
+  /** Bad arguments: unknown tool, empty prompt */
+  USAGE: 2,
+  /** The tool is not installed */
+  UNAVAILABLE: 3,
+} as const;
+
+/**
+ * Error carrying the process exit code for a failed non-interactive command
+ */
+export class HeadlessError extends Error {
+  constructor(message: string, readonly exitCode: number) {
+    super(message);
+    this.name = 'HeadlessError';
+  }
+}
+
+/**
+ * Resolve the prompt argument - "-" means read the prompt from stdin
+ */
+export async function resolvePrompt(
+  prompt: string,
+  stdin: NodeJS.ReadableStream = process.stdin
+): Promise<string> {
+  const resolved = prompt === '-' ? await readStream(stdin) : prompt;
+  if (!resolved.trim()) {
+    throw new HeadlessError('Prompt is empty', EXIT_CODES.USAGE);
+  }
+  return resolved.trim();
+}
+
+/**
+ * Look up a registered tool and make sure it's installed
+ */
+export async function resolveAdapter(registry: AdapterRegistry, name: string): Promise<ToolAdapter> {
+  const adapter = registry.get(name.toLowerCase());
+  if (!adapter) {
+    throw new HeadlessError(
+      `Unknown tool "${name}". Valid options: ${registry.getNames().join(', ')}`,
+      EXIT_CODES.USAGE
+    );
+  }
+  if (!(await adapter.isAvailable())) {
+    throw new HeadlessError(`${adapter.displayName} is not installed`, EXIT_CODES.UNAVAILABLE);
+  }
+  return adapter;
+}
+
+/**
+ * Model and role a tool is configured with
+ */
+export interface ToolSettings {
+  model?: string;
+  role?: string;
+}
+
+/**
+ * Send a single prompt to a tool in print mode, as a fresh one-off conversation
+ */
+export async function ask(
+  adapter: ToolAdapter,
+  prompt: string,
+  options: { cwd?: string } & ToolSettings = {}
+): Promise<string> {
+  try {
+    const result = await adapter.send(prompt, {
+      cwd: options.cwd ?? process.cwd(),
+      continueSession: false,
+      model: options.model,
+      role: options.role,
+    });
+    return result.text;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new HeadlessError(errorMessage, EXIT_CODES.TOOL_ERROR);
+  }
+}
+
+/**
+ * Look up a forward template by name (config replaces built-in ones), if a name is given
+ */
+export function resolveForwardTemplate(name: string | undefined, custom: Record<string, string> = {}): string | undefined {
+  if (!name) return undefined;
+  const template = getForwardTemplate(name, custom);
+  if (!template) {
+    throw new HeadlessError(
+      `Unknown forward template "${name}". Valid options: ${getForwardTemplateNames(custom).join(', ')}`,
+      EXIT_CODES.USAGE
+    );
+  }
+  return template;
+}
+
+/**
+ * One step of a relay: which tool answered and what it said
+ */
+export interface RelayStep {
+  tool: string;
+  displayName: string;
+  response: string;
+}
+
+export interface RelayResult {
+  prompt: string;
+  source: RelayStep;
+  target: RelayStep;
+}
+
+export interface RelayOptions {
+  cwd?: string;
+  /** Additional context for the target, like the message after /forward */
+  message?: string;
+  /** Forward template to wrap the answer in - the review envelope if not given */
+  template?: string;
+  sourceSettings?: ToolSettings;
+  targetSettings?: ToolSettings;
+}
+
+/**
+ * Run a forward chain without the interactive session: send the prompt to the
+ * source tool, then forward its answer to the target tool for review.
+ */
+export async function relay(
+  source: ToolAdapter,
+  target: ToolAdapter,
+  prompt: string,
+  options: RelayOptions = {}
+): Promise<RelayResult> {
+  if (source.name === target.name) {
+    throw new HeadlessError(`Cannot relay to the same tool (${source.name})`, EXIT_CODES.USAGE);
+  }
+
+  const cwd = options.cwd ?? process.cwd();
+  const sourceResponse = await ask(source, prompt, { cwd, ...options.sourceSettings });
+  const changes = source.getLastChanges?.() ?? undefined;
+  const { template } = options;
+  const forwardPrompt = template
+    ? renderForwardTemplate(template, {
+      source: source.displayName,
+      target: target.displayName,
+      content: sourceResponse,
+      note: options.message,
+      changes,
+      cwd,
+      branch: template.includes('{branch}') ? (await getGitBranch(cwd)) ?? 'unknown' : undefined,
+    })
+    : buildForwardPrompt(source.displayName, sourceResponse, options.message, changes);
+  const targetResponse = await ask(target, forwardPrompt, { cwd, ...options.targetSettings });
+
+  return {
+    prompt,
+    source: { tool: source.name, displayName: source.displayName, response: sourceResponse },
+    target: { tool: target.name, displayName: target.displayName, response: targetResponse },
+  };
+}
+
+/**
+ * Format a relay result as a markdown document
+ */
+export function formatRelayMarkdown(result: RelayResult): string {
+  return [
+    '## Prompt',
+    '',
+    result.prompt,
+    '',
+    `## ${result.source.displayName}`,
+    '',
+    result.source.response,
+    '',
+    `## ${result.target.displayName} (reviewing ${result.source.displayName})`,
+    '',
+    result.target.response,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Get the exit code for an error thrown by a non-interactive command
+ */
+export function getExitCode(error: unknown): number {
+  return error instanceof HeadlessError ? error.exitCode : EXIT_CODES.TOOL_ERROR;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import type { Message } from './session-store.js';
+import { parseHistoryArgs, filterHistory, getForwardSources, formatMessageNumbers, traceForwardChain } from './history.js';
+
+const HISTORY: Message[] = [
+  { tool: 'claude', role: 'user', content: 'design a cache' },
+  { tool: 'claude', role: 'assistant', content: 'Use Redis with a 5 minute TTL' },
+  { tool: 'gemini', role: 'user', content: 'Another AI assistant ...' },
+  { tool: 'gemini', role: 'assistant', content: 'Memcached is simpler' },
+];
+
+describe('parseHistoryArgs', () => {
+  it('reads a message number, with or without #', () => {
+    expect(parseHistoryArgs(['7'])).toEqual({ query: { number: 7 } });
+    expect(parseHistoryArgs(['#7'])).toEqual({ query: { number: 7 } });
+  });
+
+  it('reads the tool and grep filters', () => {
+    const { query } = parseHistoryArgs(['--tool', 'Gemini', '--grep', 'redis|memcached']);
+
+    expect(query.tool).toBe('gemini');
+    expect(query.grep?.test('Use REDIS')).toBe(true);
+  });
+
+  it('reports missing values, bad patterns and unknown arguments', () => {
+    expect(parseHistoryArgs(['--tool']).error).toContain('--tool needs a value');
+    expect(parseHistoryArgs(['--grep', '(']).error).toBe('Invalid regular expression: (');
+    expect(parseHistoryArgs(['--all']).error).toBe('Unknown argument: --all');
+    expect(parseHistoryArgs(['1', '2']).error).toBe('Unknown argument: 2');
+  });
+});
+
+describe('filterHistory', () => {
+  it('numbers every message when there are no filters', () => {
+    expect(filterHistory(HISTORY, {}).map(entry => entry.number)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps the numbers of the full history when filtering', () => {
+    expect(filterHistory(HISTORY, { tool: 'gemini' }).map(entry => entry.number)).toEqual([3, 4]);
+    expect(filterHistory(HISTORY, { grep: /redis/i }).map(entry => entry.number)).toEqual([2]);
+  });
+
+  it('combines filters', () => {
+    expect(filterHistory(HISTORY, { tool: 'claude', grep: /memcached/i })).toEqual([]);
+  });
+});
+
+// Typed to Claude, forwarded to Gemini, Gemini's answer forwarded back to Claude
+const FORWARDS: Message[] = [
+  { id: 'p1', tool: 'claude', role: 'user', content: 'design a cache', mode: 'print' },
+  { id: 'a1', tool: 'claude', role: 'assistant', content: 'Use Redis', mode: 'print' },
+  { id: 'p2', tool: 'gemini', role: 'user', content: 'Another AI assistant ...', mode: 'forward', forwardedFrom: ['a1'] },
+  { id: 'a2', tool: 'gemini', role: 'assistant', content: 'Memcached is simpler', mode: 'forward' },
+  { id: 'p3', tool: 'claude', role: 'user', content: 'Another AI assistant ...', mode: 'forward', forwardedFrom: ['a2'] },
+  { id: 'a3', tool: 'claude', role: 'assistant', content: 'Agreed', mode: 'forward' },
+];
+
+describe('getForwardSources', () => {
+  it('numbers the messages a forward carried', () => {
+    expect(getForwardSources(FORWARDS, FORWARDS[2])).toEqual([2]);
+    expect(getForwardSources(FORWARDS, { ...FORWARDS[2], forwardedFrom: ['a2', 'p2'] })).toEqual([3, 4]);
+  });
+
+  it('skips sources that are no longer in the history', () => {
+    expect(getForwardSources(FORWARDS.slice(2), FORWARDS[2])).toEqual([]);
+    expect(getForwardSources(FORWARDS, FORWARDS[0])).toEqual([]);
+  });
+});
+
+describe('formatMessageNumbers', () => {
+  it('shortens runs to a range', () => {
+    expect(formatMessageNumbers([9])).toBe('#9');
+    expect(formatMessageNumbers([5, 6, 7])).toBe('#5-#7');
+    expect(formatMessageNumbers([3, 7])).toBe('#3, #7');
+  });
+});
+
+describe('traceForwardChain', () => {
+  it('follows forwards back to the prompt the user typed', () => {
+    expect(traceForwardChain(FORWARDS, 5)).toEqual([4, 2, 1]);
+  });
+
+  it('starts an answer from the forwarded prompt it replied to', () => {
+    expect(traceForwardChain(FORWARDS, 6)).toEqual([5, 4, 2, 1]);
+  });
+
+  it('is empty for messages outside a forward', () => {
+    expect(traceForwardChain(FORWARDS, 1)).toEqual([]);
+    expect(traceForwardChain(FORWARDS, 2)).toEqual([]);
+  });
+
+  it('stops at answers captured from interactive mode', () => {
+    const history: Message[] = [
+      { id: 'p1', tool: 'claude', role: 'user', content: 'hi', mode: 'print' },
+      { id: 'a1', tool: 'claude', role: 'assistant', content: 'hello', mode: 'print' },
+      { id: 'a2', tool: 'claude', role: 'assistant', content: 'refactored it', mode: 'interactive' },
+      { id: 'p2', tool: 'gemini', role: 'user', content: 'review', mode: 'forward', forwardedFrom: ['a2'] },
+    ];
+    expect(traceForwardChain(history, 4)).toEqual([3]);
+  });
+});
@@ -0,0 +1,144 @@
+import type { Message } from './session-store.js';
+
+/**
+ * What /history should show: one message in full, or a filtered list
+ */
+export interface HistoryQuery {
+  /** Number of the message to show in full, as the list numbers them (from 1) */
+  number?: number;
+  /** Only messages sent to or answered by this tool */
+  tool?: string;
+  /** Only messages whose content matches (case insensitive) */
+  grep?: RegExp;
+}
+
+/**
+ * A message with its number in the full history, which filtering must not change -
+ * /history <n> and /forward #n refer to it
+ */
+export interface NumberedMessage {
+  number: number;
+  message: Message;
+}
+
+/**
+ * Parse the arguments of /history: "<n>" (or "#n") for one message,
+ * "--tool <name>" and "--grep <regex>" to filter the list
+ */
+export function parseHistoryArgs(args: string[]): { query: HistoryQuery; error?: string } {
+  const query: HistoryQuery = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--tool' || arg === '--grep') {
+      const value = args[++i];
+      if (!value) {
+        return { query, error: `${arg} needs a value, e.g. ${arg === '--tool' ? '--tool gemini' : '--grep redis'}` };
+      }
+      if (arg === '--tool') {
+        query.tool = value.toLowerCase();
+        continue;
+      }
+      try {
+        query.grep = new RegExp(value, 'i');
+      } catch {
+        return { query, error: `Invalid regular expression: ${value}` };
+      }
+      continue;
+    }
+
+    const match = arg.match(/^#?(\d+)$/);
+    if (match && query.number === undefined) {
+      query.number = Number(match[1]);
+      continue;
+    }
+
+    return { query, error: `Unknown argument: ${arg}` };
+  }
+
+  return { query };
+}
+
+/**
+ * Messages matching a query's filters, numbered by their place in the full history
+ */
+export function filterHistory(history: Message[], query: HistoryQuery): NumberedMessage[] {
+  return history
+    .map((message, index) => ({ number: index + 1, message }))
+    .filter(({ message }) => !query.tool || message.tool === query.tool)
+    .filter(({ message }) => !query.grep || query.grep.test(message.content));
+}
+
+/**
+ * Numbers of the messages a forwarded prompt carried, in history order. Sources
+ * that have since dropped out of the history are left out.
+ */
+export function getForwardSources(history: Message[], message: Message): number[] {
+  if (!message.forwardedFrom) return [];
+  const ids = new Set(message.forwardedFrom);
+  return history
+    .map((entry, index) => (entry.id !== undefined && ids.has(entry.id) ? index + 1 : 0))
+    .filter(number => number > 0);
+}
+
+/**
+ * "#9", "#5-#9" for a run of messages, "#3, #7" otherwise
+ */
+export function formatMessageNumbers(numbers: number[]): string {
+  const isRun = numbers.every((number, index) => index === 0 || number === numbers[index - 1] + 1);
+  if (isRun && numbers.length > 1) {
+    return `#${numbers[0]}-#${numbers[numbers.length - 1]}`;
+  }
+  return numbers.map(number => `#${number}`).join(', ');
+}
+
+/**
+ * Trace a message back through forwards to the prompt the user typed: the
+ * numbers of each forwarded answer and finally of that prompt (an answer
+ * starts with the forwarded prompt it replied to). For a range forward the
+ * last answer in the range is followed. Empty if the message wasn't part of
+ * a forward.
+ */
+export function traceForwardChain(history: Message[], number: number): number[] {
+  const chain: number[] = [];
+  let index = number - 1;
+
+  // An answer is traced from the prompt it answered
+  if (history[index]?.role === 'assistant') {
+    index = findPromptIndex(history, index);
+    if (index >= 0 && getForwardSources(history, history[index]).length > 0) {
+      chain.push(index + 1);
+    }
+  }
+
+  while (index >= 0) {
+    const sources = getForwardSources(history, history[index]);
+    if (sources.length === 0) {
+      // The prompt the user typed - only worth showing if anything was forwarded
+      if (chain.length > 0 && chain[chain.length - 1] !== index + 1) chain.push(index + 1);
+      break;
+    }
+    const source = sources[sources.length - 1];
+    if (chain.includes(source)) break;
+    chain.push(source);
+    index = history[source - 1].role === 'assistant' ? findPromptIndex(history, source - 1) : source - 1;
+  }
+
+  return chain;
+}
+
+/**
+ * Index of the prompt an answer replied to: the tool's last prompt before it.
+ * Answers captured from interactive mode have none aic saw.
+ */
+function findPromptIndex(history: Message[], answerIndex: number): number {
+  if (history[answerIndex].mode === 'interactive') return -1;
+  const tool = history[answerIndex].tool;
+  for (let i = answerIndex - 1; i >= 0; i--) {
+    if (history[i].tool === tool) {
+      return history[i].role === 'user' ? i : -1;
+    }
+  }
+  return -1;
+}
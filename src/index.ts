@@ -1,33 +1,53 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { AdapterRegistry, ClaudeAdapter, GeminiAdapter } from './adapters/index.js';
-import { loadConfig, getDefaultTool, setDefaultTool, getConfigPath } from './config.js';
+import { AdapterRegistry, ClaudeAdapter, GeminiAdapter, CodexAdapter, AiderAdapter, createConfiguredAdapters } from './adapters/index.js';
+import { loadConfig, getDefaultTool, setDefaultTool, getConfigPath, getToolModel, getToolRole, getToolConfig, getForwardTemplates } from './config.js';
 import { startSDKSession } from './sdk-session.js';
+import { writeFileSync } from 'fs';
+import { findSession } from './session-store.js';
+import { exportSession, getFormatFromPath, isExportFormat, EXPORT_FORMATS } from './export.js';
+import { resolvePrompt, resolveAdapter, resolveForwardTemplate, ask, relay, formatRelayMarkdown, getExitCode } from './headless.js';
 import { VERSION } from './version.js';
 
 const program = new Command();
 
-// Initialize adapters
+// Load config
+const config = loadConfig();
+
+// Initialize adapters - built-in first, then tools defined in ~/.aic/config.json
 const registry = new AdapterRegistry();
 registry.register(new ClaudeAdapter());
 registry.register(new GeminiAdapter());
-
-// Load config
-const config = loadConfig();
+registry.register(new CodexAdapter());
+registry.register(new AiderAdapter());
+for (const adapter of createConfiguredAdapters(config.tools, registry.getNames())) {
+  registry.register(adapter);
+}
 
 const HELP_TEXT = `
 AIC² - AI Code Connect
 Bridge Claude Code and Gemini CLI in a single session.
 
 Session Commands:
-  /claude               Switch to Claude Code
-  /gemini               Switch to Gemini CLI
+${registry.getAll().map(a => `  ${`/${a.name}`.padEnd(22)}Switch to ${a.displayName}`).join('\n')}
   /i                    Enter interactive mode (Ctrl+] to detach)
   /forward [tool] [msg] Forward last response to another tool
+  /forward #n [tool]    Forward history entries (#7, #5-#9, --last 3) as numbered in /history
+  /forward --as <name>  Forward with a template (review, implement, critique-security, summarize)
   /forward -i [tool]    Forward and enter interactive mode
   /forwardi [tool]      Same as /forward -i (alias: /fwdi)
-  /history              Show conversation history
+  /debate [n] <topic>   Bounce responses between tools for n rounds, then summarize
+  /both <prompt>        Ask every tool in parallel, answers side by side (alias: /all)
+  /history [n]          Show conversation history, or message n in full
+                        (filter with --tool <name> and --grep <regex>)
+  /export [fmt] [path]  Write the conversation to a file (md, json or html)
+  /sessions [id]        List saved sessions, or reopen one
+  /usage                Show token usage and cost per tool, session and forward chain
+  /mode [tool] <profile> Set what print mode may do (readonly, edit, ...)
+  !<profile> <message>  Send one message with another profile (e.g., !edit fix it)
+  /model [tool] [name]  Show or set the model a tool uses ("default" to reset)
+  /role [tool] [text]   Show or set a tool's standing instructions ("clear" to remove)
   /status               Show running processes
   /default <tool>       Set default tool (saved permanently)
   /clear                Clear sessions and history
@@ -47,6 +67,12 @@ Forward Behavior:
 
 Examples:
   aic                         Launch interactive session
+  aic resume                  Resume the most recent saved session
+  aic export -f html -o chat.html   Export the most recent session as a web page
+  aic ask claude "Explain this error"   One-off prompt, response on stdout
+  aic ask claude --model haiku "Name this function"   One-off prompt with a specific model
+  git diff | aic ask gemini - --json    Read the prompt from stdin, print JSON
+  aic relay --from gemini --to claude "Design a cache"   Propose, then review
   aic tools                   List available AI tools
   aic config default gemini   Set Gemini as default tool
 `;
@@ -77,11 +103,11 @@ const configCmd = program
 
 configCmd
   .command('default [tool]')
-  .description('Get or set the default tool (claude, gemini)')
+  .description(`Get or set the default tool (${registry.getNames().join(', ')})`)
   .action((tool?: string) => {
     if (tool) {
       // Set default tool
-      const result = setDefaultTool(tool);
+      const result = setDefaultTool(tool, registry.getNames());
       if (result.success) {
         console.log(`✓ ${result.message}`);
       } else {
@@ -90,7 +116,7 @@ configCmd
       }
     } else {
       // Show current default
-      const currentDefault = getDefaultTool();
+      const currentDefault = getDefaultTool(registry.getNames());
       const configPath = getConfigPath();
       console.log(`Default tool: ${currentDefault}`);
       console.log(`Config file: ${configPath}`);
@@ -102,6 +128,120 @@ configCmd
     }
   });
 
+// Ask command - one-off prompt for scripts, no interactive UI
+program
+  .command('ask <tool> <prompt>')
+  .description('Send a single prompt to a tool and print the response (use "-" to read the prompt from stdin)')
+  .option('--model <name>', 'Model to use (default: the model in config, then the tool\'s default)')
+  .option('--json', 'Print the response as JSON')
+  .action(async (tool: string, prompt: string, options: { model?: string; json?: boolean }) => {
+    try {
+      const adapter = await resolveAdapter(registry, tool);
+      const resolvedPrompt = await resolvePrompt(prompt);
+      const response = await ask(adapter, resolvedPrompt, {
+        model: options.model || getToolModel(adapter.name),
+        role: getToolRole(adapter.name),
+      });
+      if (options.json) {
+        console.log(JSON.stringify({ tool: adapter.name, response }, null, 2));
+      } else {
+        console.log(response);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (options.json) {
+        console.log(JSON.stringify({ tool: tool.toLowerCase(), error: errorMessage }, null, 2));
+      } else {
+        console.error(`✗ ${errorMessage}`);
+      }
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Relay command - headless forward chain (propose with one tool, review with another)
+program
+  .command('relay <prompt>')
+  .description('Send a prompt to one tool and forward its answer to another (use "-" to read the prompt from stdin)')
+  .requiredOption('--from <tool>', 'Tool that answers the prompt')
+  .requiredOption('--to <tool>', 'Tool that reviews the answer')
+  .option('-m, --message <msg>', 'Additional context for the reviewing tool')
+  .option('--json', 'Print both responses as JSON')
+  .action(async (prompt: string, options: { from: string; to: string; message?: string; json?: boolean }) => {
+    try {
+      const source = await resolveAdapter(registry, options.from);
+      const target = await resolveAdapter(registry, options.to);
+      // Same model, role and template as a /forward in the interactive session
+      const template = resolveForwardTemplate(getToolConfig(target.name)?.forwardTemplate, getForwardTemplates());
+      const resolvedPrompt = await resolvePrompt(prompt);
+      const result = await relay(source, target, resolvedPrompt, {
+        message: options.message,
+        template,
+        sourceSettings: { model: getToolModel(source.name), role: getToolRole(source.name) },
+        targetSettings: { model: getToolModel(target.name), role: getToolRole(target.name) },
+      });
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(formatRelayMarkdown(result));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (options.json) {
+        console.log(JSON.stringify({ error: errorMessage }, null, 2));
+      } else {
+        console.error(`✗ ${errorMessage}`);
+      }
+      process.exit(getExitCode(error));
+    }
+  });
+
+// Resume command - reopen a saved session
+program
+  .command('resume [id]')
+  .description('Resume a saved session (most recent if no ID is given)')
+  .action(async (id?: string) => {
+    const session = findSession(id);
+    if (!session) {
+      console.error(id ? `✗ No saved session matching "${id}"` : '✗ No saved sessions found');
+      process.exit(1);
+    }
+    await startSDKSession(registry, session);
+  });
+
+// Export command - write a saved session as Markdown, JSON or HTML
+program
+  .command('export [id]')
+  .description('Export a saved session (most recent if no ID is given) to stdout or a file')
+  .option('-f, --format <format>', `Export format: ${EXPORT_FORMATS.join(', ')} (default: from the output file name, then md)`)
+  .option('-o, --output <path>', 'Write to a file instead of stdout')
+  .action((id: string | undefined, options: { format?: string; output?: string }) => {
+    const format = options.format?.toLowerCase() ?? (options.output && getFormatFromPath(options.output)) ?? 'md';
+    if (!isExportFormat(format)) {
+      console.error(`✗ Unknown format "${options.format}" (use ${EXPORT_FORMATS.join(', ')})`);
+      process.exit(1);
+    }
+
+    const session = findSession(id);
+    if (!session) {
+      console.error(id ? `✗ No saved session matching "${id}"` : '✗ No saved sessions found');
+      process.exit(1);
+    }
+
+    const output = exportSession(session, format, tool => registry.get(tool)?.displayName ?? tool);
+    if (!options.output) {
+      process.stdout.write(output);
+      return;
+    }
+    try {
+      writeFileSync(options.output, output);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`✗ Could not export: ${errorMessage}`);
+      process.exit(1);
+    }
+    console.error(`✓ Exported ${session.history.length} messages to ${options.output}`);
+  });
+
 // Default action - start interactive session
 program
   .action(async () => {
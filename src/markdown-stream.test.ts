@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { MarkdownStream, findBlockBoundary } from './markdown-stream.js';
+
+// Marks each render call so tests can see how the text was split
+const render = (markdown: string) => `[${markdown}]`;
+
+describe('findBlockBoundary', () => {
+  it('returns 0 while no block is complete', () => {
+    expect(findBlockBoundary('First paragraph')).toBe(0);
+    expect(findBlockBoundary('First line\nsecond line\n')).toBe(0);
+  });
+
+  it('ends a block after a blank line', () => {
+    const text = 'One.\n\nTwo';
+    expect(text.slice(0, findBlockBoundary(text))).toBe('One.\n\n');
+  });
+
+  it('ignores blank lines inside code fences', () => {
+    expect(findBlockBoundary('Code:\n```js\nconst a = 1;\n\nconst b')).toBe(0);
+  });
+
+  it('ends a block after a closing code fence', () => {
+    const text = 'Code:\n```js\na\n\nb\n```\nAfter';
+    expect(text.slice(0, findBlockBoundary(text))).toBe('Code:\n```js\na\n\nb\n```\n');
+  });
+});
+
+describe('MarkdownStream', () => {
+  it('holds text back until a block is complete', () => {
+    const stream = new MarkdownStream(render);
+
+    expect(stream.push('Hello ')).toBe('');
+    expect(stream.push('world.\n')).toBe('');
+    expect(stream.push('\nNext')).toBe('[Hello world.\n\n]');
+    expect(stream.flush()).toBe('[Next]');
+  });
+
+  it('renders several completed blocks at once', () => {
+    const stream = new MarkdownStream(render);
+    expect(stream.push('A\n\nB\n\nC')).toBe('[A\n\nB\n\n]');
+  });
+
+  it('keeps a code block together while it streams', () => {
+    const stream = new MarkdownStream(render);
+
+    expect(stream.push('```\nline 1\n\n')).toBe('');
+    expect(stream.push('line 2\n```\n')).toBe('[```\nline 1\n\nline 2\n```\n]');
+  });
+
+  it('renders nothing for an empty response', () => {
+    const stream = new MarkdownStream(render);
+    expect(stream.push('\n\n')).toBe('');
+    expect(stream.flush()).toBe('');
+  });
+});
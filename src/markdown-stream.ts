@@ -0,0 +1,58 @@
+/**
+ * Incremental markdown rendering for streamed responses.
+ *
+ * Streamed text is held back until a block is complete - a blank line outside
+ * a code fence - so a paragraph, list or code block is never rendered half
+ * way. flush() renders whatever is left once the response has ended.
+ */
+export class MarkdownStream {
+  private pending = '';
+
+  constructor(private render: (markdown: string) => string) {}
+
+  /** Add streamed text; returns the rendered output of any blocks it completed */
+  push(text: string): string {
+    this.pending += text;
+
+    const boundary = findBlockBoundary(this.pending);
+    if (boundary === 0) return '';
+
+    const complete = this.pending.slice(0, boundary);
+    this.pending = this.pending.slice(boundary);
+    return complete.trim() ? this.render(complete) : '';
+  }
+
+  /** Render the rest of the response */
+  flush(): string {
+    const rest = this.pending;
+    this.pending = '';
+    return rest.trim() ? this.render(rest) : '';
+  }
+}
+
+/**
+ * Position just past the last line that ends a block - a blank line outside code fences
+ * or a closing fence - or 0 if no block is complete yet
+ */
+export function findBlockBoundary(text: string): number {
+  const lines = text.split('\n');
+  let inFence = false;
+  let boundary = 0;
+  let offset = 0;
+
+  // The last entry is an unfinished line - it can't end a block yet
+  for (let i = 0; i < lines.length - 1; i++) {
+    const line = lines[i];
+    offset += line.length + 1;
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      // A closing fence ends the code block
+      if (!inFence) boundary = offset;
+    } else if (!inFence && line.trim() === '') {
+      boundary = offset;
+    }
+  }
+
+  return boundary;
+}
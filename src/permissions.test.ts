@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { ToolAdapter } from './adapters/base.js';
+import {
+  getPermissionProfiles,
+  getPermissionArgs,
+  getDefaultPermissionProfile,
+  parseProfilePrefix,
+} from './permissions.js';
+
+function createAdapter(overrides: Partial<ToolAdapter> = {}): ToolAdapter {
+  return {
+    name: 'claude',
+    permissionProfiles: {
+      readonly: [],
+      edit: ['--permission-mode', 'acceptEdits'],
+    },
+    ...overrides,
+  } as ToolAdapter;
+}
+
+describe('getPermissionProfiles', () => {
+  it('lists built-in profiles, then profiles from config', () => {
+    const config = { profiles: { tests: ['--allowedTools', 'Bash(npm test)'], edit: ['--allowedTools', 'Edit'] } };
+    expect(getPermissionProfiles(createAdapter(), config)).toEqual(['readonly', 'edit', 'tests']);
+  });
+
+  it('is empty for tools without profiles', () => {
+    expect(getPermissionProfiles(createAdapter({ permissionProfiles: undefined }))).toEqual([]);
+  });
+});
+
+describe('getPermissionArgs', () => {
+  it('returns the built-in arguments of a profile', () => {
+    expect(getPermissionArgs(createAdapter(), 'edit')).toEqual(['--permission-mode', 'acceptEdits']);
+  });
+
+  it('lets config replace a built-in profile', () => {
+    const config = { profiles: { edit: ['--allowedTools', 'Edit,Write'] } };
+    expect(getPermissionArgs(createAdapter(), 'edit', config)).toEqual(['--allowedTools', 'Edit,Write']);
+  });
+
+  it('returns null for an unknown profile', () => {
+    expect(getPermissionArgs(createAdapter(), 'yolo')).toBeNull();
+  });
+});
+
+describe('getDefaultPermissionProfile', () => {
+  it('starts in readonly', () => {
+    expect(getDefaultPermissionProfile(createAdapter())).toBe('readonly');
+  });
+
+  it('prefers the mode from config, then the tool default', () => {
+    expect(getDefaultPermissionProfile(createAdapter(), { mode: 'edit' })).toBe('edit');
+    expect(getDefaultPermissionProfile(createAdapter({ defaultPermissionProfile: 'edit' }))).toBe('edit');
+  });
+
+  it('ignores a configured mode the tool does not have', () => {
+    expect(getDefaultPermissionProfile(createAdapter(), { mode: 'yolo' })).toBe('readonly');
+  });
+
+  it('uses the first config profile for a tool without built-in ones', () => {
+    const adapter = createAdapter({ permissionProfiles: undefined });
+    expect(getDefaultPermissionProfile(adapter, { profiles: { safe: [], open: ['--yes'] } })).toBe('safe');
+    expect(getDefaultPermissionProfile(adapter)).toBeNull();
+  });
+});
+
+describe('parseProfilePrefix', () => {
+  const profiles = ['readonly', 'edit'];
+
+  it('splits a known profile off the message', () => {
+    expect(parseProfilePrefix('!edit fix the failing test', profiles)).toEqual({
+      profile: 'edit',
+      message: 'fix the failing test',
+    });
+  });
+
+  it('leaves messages without a known profile alone', () => {
+    expect(parseProfilePrefix('!important read this first', profiles)).toEqual({ message: '!important read this first' });
+    expect(parseProfilePrefix('edit the README', profiles)).toEqual({ message: 'edit the README' });
+    expect(parseProfilePrefix('!edit', profiles)).toEqual({ message: '!edit' });
+  });
+});
@@ -0,0 +1,53 @@
+import type { ToolAdapter } from './adapters/base.js';
+import type { ToolConfig } from './config.js';
+
+/** Profile print-mode requests use unless the tool or config says otherwise */
+export const DEFAULT_PERMISSION_PROFILE = 'readonly';
+
+// "!edit fix the failing test" - a profile for one message
+const PROFILE_PREFIX_PATTERN = /^!([a-zA-Z0-9_-]+)\s+([\s\S]+)$/;
+
+/**
+ * Permission profiles a tool supports: its built-in ones plus any defined in
+ * its config entry, in that order
+ */
+export function getPermissionProfiles(adapter: ToolAdapter, config?: ToolConfig): string[] {
+  const names = [
+    ...Object.keys(adapter.permissionProfiles ?? {}),
+    ...Object.keys(config?.profiles ?? {}),
+  ];
+  return [...new Set(names)];
+}
+
+/**
+ * Arguments that give a print-mode request the permissions of a profile.
+ * A profile in config replaces the built-in one of the same name.
+ * Returns null if the tool has no such profile.
+ */
+export function getPermissionArgs(adapter: ToolAdapter, profile: string, config?: ToolConfig): string[] | null {
+  return config?.profiles?.[profile] ?? adapter.permissionProfiles?.[profile] ?? null;
+}
+
+/**
+ * The profile a tool starts in: the config's `mode`, then the tool's own default.
+ * Tools without profiles have none.
+ */
+export function getDefaultPermissionProfile(adapter: ToolAdapter, config?: ToolConfig): string | null {
+  const profiles = getPermissionProfiles(adapter, config);
+  if (profiles.length === 0) return null;
+
+  const preferred = [config?.mode, adapter.defaultPermissionProfile, DEFAULT_PERMISSION_PROFILE];
+  return preferred.find(name => name !== undefined && profiles.includes(name)) ?? profiles[0];
+}
+
+/**
+ * Split a "!profile message" prefix off a message. Only profiles the tool knows
+ * count - anything else is part of the message.
+ */
+export function parseProfilePrefix(message: string, profiles: string[]): { profile?: string; message: string } {
+  const match = message.match(PROFILE_PREFIX_PATTERN);
+  if (!match || !profiles.includes(match[1])) {
+    return { message };
+  }
+  return { profile: match[1], message: match[2].trim() };
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AdapterRegistry, ToolAdapter, SendOptions } from './adapters/base.js';
+import { SDKSession } from './sdk-session.js';
+
+// Keep config and saved sessions out of the user's ~/.aic
+vi.mock('./config.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./config.js')>(),
+  getDefaultTool: vi.fn(() => 'claude'),
+  getDebateConfig: vi.fn(() => ({ stopPhrase: 'I AGREE' })),
+  getToolModel: vi.fn(),
+  getToolRole: vi.fn(),
+  getToolConfig: vi.fn(),
+}));
+
+vi.mock('./session-store.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./session-store.js')>(),
+  saveSession: vi.fn(),
+}));
+
+function createMockAdapter(name: string, send: ToolAdapter['send']): ToolAdapter {
+  return {
+    name,
+    displayName: `${name} Tool`,
+    color: '\x1b[0m',
+    promptPattern: />/,
+    idleTimeout: 1000,
+    startupDelay: 1000,
+    isAvailable: vi.fn().mockResolvedValue(true),
+    send: vi.fn(send),
+    resetContext: vi.fn(),
+    getCommand: vi.fn().mockReturnValue([name]),
+    getInteractiveCommand: vi.fn().mockReturnValue([name]),
+    getPersistentArgs: vi.fn().mockReturnValue([]),
+    cleanResponse: vi.fn().mockImplementation((s: string) => s),
+    hasSession: vi.fn().mockReturnValue(false),
+    setHasSession: vi.fn(),
+  };
+}
+
+describe('SDKSession', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('/clear', () => {
+    it('starts new tool sessions along with a new saved session', async () => {
+      const registry = new AdapterRegistry();
+      const claude = createMockAdapter('claude', async () => ({ text: 'ok', durationMs: 10 }));
+      const gemini = createMockAdapter('gemini', async () => ({ text: 'ok', durationMs: 10 }));
+      registry.register(claude);
+      registry.register(gemini);
+      const session = new SDKSession(registry, process.cwd());
+      const sessionId = session['sessionId'];
+
+      await session['handleMetaCommand']('clear');
+
+      expect(claude.resetContext).toHaveBeenCalled();
+      expect(gemini.resetContext).toHaveBeenCalled();
+      expect(session['sessionId']).not.toBe(sessionId);
+    });
+  });
+
+  describe('restoreSession', () => {
+    it('brings back the roles the saved session had', () => {
+      const registry = new AdapterRegistry();
+      registry.register(createMockAdapter('claude', async () => ({ text: 'ok', durationMs: 10 })));
+      registry.register(createMockAdapter('gemini', async () => ({ text: 'ok', durationMs: 10 })));
+      const saved = new SDKSession(registry, process.cwd());
+      saved['toolRoles'].set('gemini', 'You are the reviewer.');
+
+      const session = new SDKSession(registry, process.cwd());
+      session['toolRoles'].set('claude', 'You are the architect.');
+      session.restoreSession(saved['getSessionData']());
+
+      expect(Object.fromEntries(session['toolRoles'])).toEqual({ gemini: 'You are the reviewer.' });
+    });
+  });
+
+  describe('/both', () => {
+    function createSession() {
+      const registry = new AdapterRegistry();
+      registry.register(createMockAdapter('claude', async () => ({ text: 'ok', durationMs: 10 })));
+      const session = new SDKSession(registry, process.cwd());
+      const handleBroadcast = vi.spyOn(session as unknown as { handleBroadcast: () => Promise<void> }, 'handleBroadcast')
+        .mockResolvedValue();
+      return { session, handleBroadcast };
+    }
+
+    it('reads --stack and -s in front of the prompt', async () => {
+      const { session, handleBroadcast } = createSession();
+
+      await session['handleMetaCommand']('both -s --stack compare these');
+
+      expect(handleBroadcast).toHaveBeenCalledWith('compare these', true);
+    });
+
+    it('leaves flags inside the prompt alone', async () => {
+      const { session, handleBroadcast } = createSession();
+
+      await session['handleMetaCommand']('all what does ls -s do');
+
+      expect(handleBroadcast).toHaveBeenCalledWith('what does ls -s do', false);
+    });
+
+    it('keeps answers that arrived before the broadcast was cancelled', async () => {
+      const registry = new AdapterRegistry();
+      registry.register(createMockAdapter('claude', async () => ({ text: 'Use Redis', durationMs: 10 })));
+      registry.register(createMockAdapter('gemini', async () => {
+        // Ctrl+C after Claude answered, while Gemini is still working
+        await new Promise(resolve => setTimeout(resolve, 0));
+        session['requestController']?.abort();
+        throw new Error('Request cancelled');
+      }));
+      const session = new SDKSession(registry, process.cwd());
+
+      await session['handleBroadcast']('Redis or Memcached?', false);
+
+      const history = session['conversationHistory'];
+      expect(history.map(msg => [msg.tool, msg.role])).toEqual([['claude', 'user'], ['claude', 'assistant']]);
+      expect(history[1]).toMatchObject({ content: 'Use Redis', mode: 'broadcast' });
+      expect(history[1].warnings?.[0]).toContain('cancelled');
+    });
+  });
+
+  describe('/debate', () => {
+    function createSession(geminiSend: ToolAdapter['send']) {
+      const registry = new AdapterRegistry();
+      registry.register(createMockAdapter('claude', async () => ({ text: 'Use Redis', durationMs: 10 })));
+      registry.register(createMockAdapter('gemini', geminiSend));
+      const session = new SDKSession(registry, process.cwd());
+      return { session, registry };
+    }
+
+    it('gives the active tool back when a turn is cancelled', async () => {
+      const { session } = createSession(async (_prompt: string, options?: SendOptions) => {
+        // Ctrl+C while Gemini is answering
+        session['requestController']?.abort();
+        expect(options?.signal?.aborted).toBe(true);
+        throw new Error('Request cancelled');
+      });
+
+      await session['handleDebate']('2 Redis or Memcached?');
+
+      expect(session['activeTool']).toBe('claude');
+      expect(session['conversationHistory'].map(msg => msg.tool)).toEqual(['claude', 'claude']);
+    });
+
+    it('gives the active tool back after a full debate', async () => {
+      const { session } = createSession(async () => ({ text: 'Memcached', durationMs: 10 }));
+      session['activeTool'] = 'gemini';
+
+      await session['handleDebate']('1 Redis or Memcached?');
+
+      expect(session['activeTool']).toBe('gemini');
+    });
+  });
+});
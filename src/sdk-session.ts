@@ -1,11 +1,53 @@
 import { createInterface, Interface, CompleterResult } from 'readline';
 import { marked } from 'marked';
 import TerminalRenderer from 'marked-terminal';
-import { stripAnsi, commandExists } from './utils.js';
-import { getDefaultTool, setDefaultTool, shouldCheckVersion, setVersionCache, getVersionCache } from './config.js';
+import { existsSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { stripAnsi, wrapText, getGitBranch, showInPager } from './utils.js';
+import { parseHistoryArgs, filterHistory, getForwardSources, formatMessageNumbers, traceForwardChain, NumberedMessage } from './history.js';
+import { exportSession, getFormatFromPath, getDefaultExportPath, isExportFormat, ExportFormat } from './export.js';
+import { getDefaultTool, setDefaultTool, shouldCheckVersion, setVersionCache, getVersionCache, getDebateConfig, getForwardTemplates, getToolModel, getToolRole, getToolConfig, ToolConfig } from './config.js';
 import { VERSION, PACKAGE_NAME, checkForUpdates } from './version.js';
-import { AdapterRegistry } from './adapters/base.js';
+import { AdapterRegistry, AdapterSessionState, ToolAdapter } from './adapters/base.js';
 import { PersistentPtyManager, PtyState, PtyConfig } from './persistent-pty.js';
+import { Message, SessionData, createSessionId, createMessageId, saveSession, listSessions, findSession } from './session-store.js';
+import {
+  buildForwardPrompt,
+  buildHistoryForwardPrompt,
+  parseHistorySelection,
+  formatHistoryEntries,
+  getForwardTemplate,
+  getForwardTemplateNames,
+  renderForwardTemplate,
+  describeChanges,
+} from './forward.js';
+import { MarkdownStream } from './markdown-stream.js';
+import {
+  UsageTotals,
+  getResultFields,
+  formatResultSummary,
+  summarizeUsage,
+  summarizeUsageByTool,
+  summarizeUsageByChain,
+  formatTokens,
+  formatCost,
+} from './usage.js';
+import {
+  parseDebateArgs,
+  buildDebateOpeningPrompt,
+  buildDebateReplyPrompt,
+  buildDebateSummaryPrompt,
+  buildJudgePrompt,
+  isAgreement,
+  isJudgeAffirmative,
+} from './debate.js';
+import {
+  DEFAULT_PERMISSION_PROFILE,
+  getPermissionProfiles,
+  getPermissionArgs,
+  getDefaultPermissionProfile,
+  parseProfilePrefix,
+} from './permissions.js';
 
 // Configure marked to render markdown for terminal with colors
 marked.setOptions({
@@ -18,15 +60,13 @@ marked.setOptions({
   })
 });
 
-interface Message {
-  tool: string;
-  role: 'user' | 'assistant';
-  content: string;
-}
+/** Provenance recorded on the messages of a request */
+type MessageOrigin = Pick<Message, 'mode' | 'forwardedFrom'>;
 
 // Constants
 const MAX_HISTORY_SIZE = 1000;
 const REQUEST_TIMEOUT_MS = 120000;
+const MIN_COLUMN_WIDTH = 40; // Narrowest column for side-by-side /both output
 
 // Detach key codes - Ctrl+] and Ctrl+\ to return to AIC menu
 const DETACH_KEYS = {
@@ -178,42 +218,22 @@ ${colors.brightCyan}██║  ██║${colors.brightMagenta}██║${colors
 ${colors.brightCyan}╚═╝  ╚═╝${colors.brightMagenta}╚═╝${colors.brightYellow} ╚═════╝${colors.reset}
 `;
 
-// Tool configuration - add new tools here
-interface ToolConfig {
-  name: string;
-  displayName: string;
-  color: string;
-}
-
-const AVAILABLE_TOOLS: ToolConfig[] = [
-  { name: 'claude', displayName: 'Claude Code', color: colors.brightCyan },
-  { name: 'gemini', displayName: 'Gemini CLI', color: colors.brightMagenta },
-  // Add new tools here, e.g.:
-  // { name: 'codex', displayName: 'Codex CLI', color: colors.brightGreen },
-];
-
-function getToolConfig(name: string): ToolConfig | undefined {
-  return AVAILABLE_TOOLS.find(t => t.name === name);
-}
-
-function getToolColor(name: string): string {
-  return getToolConfig(name)?.color || colors.white;
-}
-
-function getToolDisplayName(name: string): string {
-  return getToolConfig(name)?.displayName || name;
-}
-
 // AIC command definitions (single slash for AIC commands)
 const AIC_COMMANDS = [
-  { value: '/claude', name: `${rainbowText('/claude')}        Switch to Claude Code`, description: 'Switch to Claude Code (add -i for interactive)' },
-  { value: '/gemini', name: `${rainbowText('/gemini', 1)}        Switch to Gemini CLI`, description: 'Switch to Gemini CLI (add -i for interactive)' },
   { value: '/i', name: `${rainbowText('/i', 2)}             Enter interactive mode`, description: 'Enter interactive mode (Ctrl+] or Ctrl+\\\\ to detach, Ctrl+6 or Ctrl+Q to toggle)' },
-  { value: '/forward', name: `${rainbowText('/forward', 3)}       Forward last response`, description: 'Forward response: /forward [tool] [msg]' },
+  { value: '/forward', name: `${rainbowText('/forward', 3)}       Forward last response`, description: 'Forward response: /forward [#n|#n-#m|--last n] [--as template] [tool] [msg]' },
   { value: '/fwd', name: `${rainbowText('/fwd', 4)}            Forward (alias)`, description: 'Forward response: /fwd [tool] [msg]' },
-  { value: '/history', name: `${rainbowText('/history', 4)}       Show conversation`, description: 'Show conversation history' },
+  { value: '/both', name: `${rainbowText('/both', 2)}           Ask every tool`, description: 'Send a prompt to all tools in parallel: /both [--stack] <prompt>' },
+  { value: '/debate', name: `${rainbowText('/debate', 3)}         Multi-round debate`, description: 'Debate between tools: /debate [rounds] <topic>' },
+  { value: '/history', name: `${rainbowText('/history', 4)}       Show conversation`, description: 'Show conversation history: /history [n] [--tool <name>] [--grep <regex>]' },
+  { value: '/export', name: `${rainbowText('/export', 5)}        Save conversation`, description: 'Write the conversation to a file: /export [md|json|html] [path]' },
+  { value: '/sessions', name: `${rainbowText('/sessions', 5)}      Saved sessions`, description: 'List saved sessions: /sessions [id] to reopen' },
+  { value: '/usage', name: `${rainbowText('/usage', 0)}         Tokens and cost`, description: 'Show token usage and cost per tool, session and forward chain' },
+  { value: '/mode', name: `${rainbowText('/mode', 0)}          Permission profile`, description: 'Show or set what print mode may do: /mode [tool] <readonly|edit|...>' },
+  { value: '/model', name: `${rainbowText('/model', 1)}         Choose a model`, description: 'Show or set the model a tool uses: /model [tool] [name|default]' },
+  { value: '/role', name: `${rainbowText('/role', 2)}          Give a tool a role`, description: 'Show or set a tool\'s standing instructions: /role [tool] [text|clear]' },
   { value: '/status', name: `${rainbowText('/status', 5)}        Show running processes`, description: 'Show daemon status' },
-  { value: '/default', name: `${rainbowText('/default', 0)}       Set default tool`, description: 'Set default tool: /default <claude|gemini>' },
+  { value: '/default', name: `${rainbowText('/default', 0)}       Set default tool`, description: 'Set default tool: /default <tool>' },
   { value: '/help', name: `${rainbowText('/help', 1)}          Show help`, description: 'Show available commands' },
   { value: '/clear', name: `${rainbowText('/clear', 2)}         Clear sessions`, description: 'Clear sessions and history' },
   { value: '/quit', name: `${rainbowText('/quit', 3)}          Exit`, description: 'Exit AIC' },
@@ -343,6 +363,70 @@ class Spinner {
   }
 }
 
+/**
+ * One spinner line per tool, for requests that run in parallel (/both).
+ * Lines are redrawn in place; finished tools show ✓/✗ with their elapsed time.
+ */
+class MultiSpinner {
+  private intervalId: NodeJS.Timeout | null = null;
+  private frameIndex = 0;
+  private startTime: number = 0;
+  private entries: { label: string; doneMs: number | null; failed: boolean }[];
+
+  constructor(labels: string[]) {
+    this.entries = labels.map(label => ({ label, doneMs: null, failed: false }));
+  }
+
+  start(): void {
+    this.startTime = Date.now();
+    process.stdout.write('\x1b[2K\r\n');
+    process.stdout.write(cursor.hide);
+    this.entries.forEach(() => process.stdout.write('\n'));
+    this.render();
+    this.intervalId = setInterval(() => {
+      this.frameIndex = (this.frameIndex + 1) % SPINNER_FRAMES.length;
+      this.render();
+    }, 100);
+  }
+
+  /**
+   * Mark one tool's request as finished
+   */
+  markDone(index: number, failed: boolean = false): void {
+    const entry = this.entries[index];
+    if (entry && entry.doneMs === null) {
+      entry.doneMs = Date.now() - this.startTime;
+      entry.failed = failed;
+    }
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.render();
+      process.stdout.write(cursor.show);
+    }
+  }
+
+  private render(): void {
+    // Move back up to the first spinner line and redraw all of them
+    process.stdout.write(`\x1b[${this.entries.length}A`);
+    for (const entry of this.entries) {
+      let line: string;
+      if (entry.doneMs === null) {
+        const elapsedSec = Math.floor((Date.now() - this.startTime) / 1000);
+        const elapsedDisplay = elapsedSec > 0 ? ` (${elapsedSec}s)` : '';
+        line = `${SPINNER_FRAMES[this.frameIndex]} ${entry.label} is thinking ...${elapsedDisplay}`;
+      } else {
+        const icon = entry.failed ? `${colors.red}✗${colors.reset}` : `${colors.green}✓${colors.reset}`;
+        line = `${icon} ${entry.label} ${colors.dim}(${(entry.doneMs / 1000).toFixed(1)}s)${colors.reset}`;
+      }
+      process.stdout.write(`\r\x1b[K${line}\n`);
+    }
+  }
+}
+
 /**
  * Session with persistent interactive mode support
  * - Regular messages: uses -p (print mode) with --continue/--resume
@@ -350,12 +434,20 @@ class Spinner {
  */
 export class SDKSession {
   private isRunning = false;
-  private activeTool: 'claude' | 'gemini';
+  private activeTool: string;
   private conversationHistory: Message[] = [];
 
+  // Saved session identity (~/.aic/sessions/<id>.json)
+  private sessionId: string = createSessionId();
+  private sessionCreatedAt: number = Date.now();
+  private resumedSession = false;
+
   // Adapter registry for tool lookup
   private registry: AdapterRegistry;
 
+  // Registered tools that are installed (checked once in start())
+  private availableTools: string[] = [];
+
   // Persistent PTY managers - one per tool, lazy-spawned on first use
   private ptyManagers: Map<string, PersistentPtyManager> = new Map();
 
@@ -366,14 +458,77 @@ export class SDKSession {
   private rl: Interface | null = null;
   private inputHistory: string[] = [];
 
+  // Forward chain of the messages being recorded (0 = none started yet)
+  private currentChain = 0;
+
+  // Model per tool, from config or /model - tools without an entry use their own default
+  private toolModels: Map<string, string> = new Map();
+  // Role per tool, from config or /role - kept across /clear, unlike the tools' sessions
+  private toolRoles: Map<string, string> = new Map();
+
+  // Config entry per tool (permission profiles and the mode to start in)
+  private toolConfigs: Map<string, ToolConfig> = new Map();
+  // Permission profile per tool for print-mode requests - tools without profiles have no entry
+  private toolModes: Map<string, string> = new Map();
+
   // Request state management
   private requestInProgress = false;
+  // Aborted by Ctrl+C to cancel the running request
+  private requestController: AbortController | null = null;
 
   constructor(registry: AdapterRegistry, cwd?: string) {
     this.registry = registry;
     this.cwd = cwd || process.cwd();
     // Load default tool from config (or env var)
-    this.activeTool = getDefaultTool() as 'claude' | 'gemini';
+    this.activeTool = getDefaultTool(registry.getNames());
+    for (const name of registry.getNames()) {
+      const model = getToolModel(name);
+      if (model) {
+        this.toolModels.set(name, model);
+      }
+      const role = getToolRole(name);
+      if (role) {
+        this.toolRoles.set(name, role);
+      }
+    }
+    for (const adapter of registry.getAll()) {
+      const config = getToolConfig(adapter.name);
+      if (config) {
+        this.toolConfigs.set(adapter.name, config);
+      }
+      const mode = getDefaultPermissionProfile(adapter, config);
+      if (mode) {
+        this.toolModes.set(adapter.name, mode);
+      }
+    }
+  }
+
+  private getToolProfiles(tool: string): string[] {
+    const adapter = this.registry.get(tool);
+    return adapter ? getPermissionProfiles(adapter, this.toolConfigs.get(tool)) : [];
+  }
+
+  /**
+   * Print-mode arguments for a tool's permission profile - the current one unless given
+   */
+  private getToolPermissionArgs(tool: string, profile = this.toolModes.get(tool)): string[] | undefined {
+    const adapter = this.registry.get(tool);
+    if (!adapter || !profile) return undefined;
+    return getPermissionArgs(adapter, profile, this.toolConfigs.get(tool)) ?? undefined;
+  }
+
+  /** "[edit]" tag for a permission profile - readonly is dimmed, anything that can change files stands out */
+  private formatMode(mode: string): string {
+    const color = mode === DEFAULT_PERMISSION_PROFILE ? colors.dim : colors.yellow;
+    return `${color}[${mode}]${colors.reset}`;
+  }
+
+  private getToolColor(name: string): string {
+    return this.registry.get(name)?.color || colors.white;
+  }
+
+  private getToolDisplayName(name: string): string {
+    return this.registry.get(name)?.displayName || name;
   }
 
   /**
@@ -390,11 +545,14 @@ export class SDKSession {
       if (!adapter) {
         throw new Error(`Unknown tool: ${tool}`);
       }
+      if (adapter.interactiveMode === 'repl') {
+        throw new Error(`${adapter.displayName} has no interactive CLI`);
+      }
 
       manager = new PersistentPtyManager({
         name: adapter.name,
-        command: adapter.name,
-        args: adapter.getPersistentArgs(),
+        command: adapter.command || adapter.name,
+        args: adapter.getPersistentArgs({ model: this.toolModels.get(tool), role: this.toolRoles.get(tool) }),
         promptPattern: adapter.promptPattern,
         idleTimeout: adapter.idleTimeout,
         cleanResponse: (raw) => adapter.cleanResponse(raw),
@@ -426,6 +584,105 @@ export class SDKSession {
     return manager;
   }
 
+  /**
+   * Append a message to the conversation history with a new ID and the current
+   * time, enforcing the size limit
+   */
+  private recordMessage(message: Message): void {
+    if (this.currentChain > 0 && message.chain === undefined) {
+      message = { ...message, chain: this.currentChain };
+    }
+    this.conversationHistory.push({ id: createMessageId(), timestamp: Date.now(), ...message });
+    while (this.conversationHistory.length > MAX_HISTORY_SIZE) {
+      this.conversationHistory.shift();
+    }
+  }
+
+  /**
+   * Save history and per-adapter session state so the session can be resumed later.
+   * Sessions without any history are not written.
+   */
+  private persistSession(): void {
+    if (this.conversationHistory.length === 0) return;
+
+    try {
+      saveSession(this.getSessionData());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`${colors.dim}⚠ Could not save session: ${errorMessage}${colors.reset}`);
+    }
+  }
+
+  /**
+   * The session as it would be saved right now
+   */
+  private getSessionData(): SessionData {
+    const adapters: { [name: string]: AdapterSessionState } = {};
+    for (const adapter of this.registry.getAll()) {
+      adapters[adapter.name] = adapter.getSessionState
+        ? adapter.getSessionState()
+        : { hasSession: adapter.hasSession() };
+    }
+
+    return {
+      id: this.sessionId,
+      createdAt: this.sessionCreatedAt,
+      updatedAt: Date.now(),
+      cwd: this.cwd,
+      activeTool: this.activeTool,
+      history: this.conversationHistory,
+      roles: Object.fromEntries(this.toolRoles),
+      adapters,
+    };
+  }
+
+  /**
+   * Start a new forward chain - call before sending a prompt the user typed.
+   * Forwards and debate rounds stay in the current chain (see /usage).
+   */
+  private startChain(): void {
+    this.currentChain++;
+  }
+
+  /**
+   * Load a saved session's history and tool session state into this session
+   */
+  restoreSession(session: SessionData): void {
+    this.sessionId = session.id;
+    this.sessionCreatedAt = session.createdAt;
+    // Sessions saved by older versions have no message IDs - forwards need them
+    this.conversationHistory = session.history
+      .slice(-MAX_HISTORY_SIZE)
+      .map(msg => (msg.id ? msg : { ...msg, id: createMessageId() }));
+    this.currentChain = Math.max(0, ...this.conversationHistory.map(msg => msg.chain ?? 0));
+    this.resumedSession = true;
+
+    if (existsSync(session.cwd)) {
+      this.cwd = session.cwd;
+    }
+
+    if (this.registry.get(session.activeTool)) {
+      this.activeTool = session.activeTool;
+    }
+
+    // The tools' sessions were given these roles - sessions saved by older versions have none recorded
+    if (session.roles) {
+      this.toolRoles = new Map(Object.entries(session.roles).filter(([tool]) => this.registry.get(tool)));
+    }
+
+    for (const adapter of this.registry.getAll()) {
+      const state = session.adapters[adapter.name];
+      if (!state) {
+        // Tool wasn't used in the saved session - start it fresh
+        adapter.resetContext();
+      } else if (adapter.restoreSessionState) {
+        adapter.restoreSessionState(state);
+      } else {
+        adapter.setHasSession(state.hasSession);
+      }
+    }
+  }
+
   async start(): Promise<void> {
     // Ensure cursor is visible
     process.stdout.write(cursor.show + cursor.blockBlink);
@@ -436,11 +693,12 @@ export class SDKSession {
     // Also check for updates in parallel (only if cache is stale)
     const versionCheckPromise = shouldCheckVersion() ? checkForUpdates() : Promise.resolve(null);
 
-    const [claudeAvailable, geminiAvailable, updateInfo] = await Promise.all([
-      commandExists('claude'),
-      commandExists('gemini'),
+    const adapters = this.registry.getAll();
+    const [availability, updateInfo] = await Promise.all([
+      Promise.all(adapters.map(adapter => adapter.isAvailable())),
       versionCheckPromise,
     ]);
+    this.availableTools = adapters.filter((_, i) => availability[i]).map(adapter => adapter.name);
 
     // Cache the version check result if we got one
     if (updateInfo) {
@@ -467,41 +725,45 @@ export class SDKSession {
       }
     }
 
-    const availableCount = (claudeAvailable ? 1 : 0) + (geminiAvailable ? 1 : 0);
+    const availableCount = this.availableTools.length;
+    const missingTools = adapters.filter(adapter => !this.availableTools.includes(adapter.name));
 
     // Handle no tools available
     if (availableCount === 0) {
       console.log('');
       console.log(`${colors.red}✗ No AI tools found!${colors.reset}`);
       console.log('');
-      console.log(`${colors.dim}AIC² bridges multiple AI CLI tools. Please install both:${colors.reset}`);
+      console.log(`${colors.dim}AIC² bridges multiple AI CLI tools. Please install at least two:${colors.reset}`);
       console.log('');
-      console.log(`  ${colors.brightCyan}Claude Code${colors.reset}: npm install -g @anthropic-ai/claude-code`);
-      console.log(`  ${colors.brightMagenta}Gemini CLI${colors.reset}:  npm install -g @google/gemini-cli`);
+      for (const adapter of missingTools) {
+        console.log(`  ${adapter.color}${adapter.displayName}${colors.reset}: ${adapter.installCommand || adapter.command || adapter.name}`);
+      }
       console.log('');
       process.exit(1);
     }
 
     // Handle only one tool available
     if (availableCount === 1) {
-      const availableTool = claudeAvailable ? 'Claude Code' : 'Gemini CLI';
-      const availableCmd = claudeAvailable ? 'claude' : 'gemini';
-      const missingTool = claudeAvailable ? 'Gemini CLI' : 'Claude Code';
-      const missingInstall = claudeAvailable 
-        ? 'npm install -g @google/gemini-cli'
-        : 'npm install -g @anthropic-ai/claude-code';
-      
+      const available = this.registry.get(this.availableTools[0])!;
+
       console.log('');
-      console.log(`${colors.yellow}⚠ Only ${availableTool} found${colors.reset}`);
+      console.log(`${colors.yellow}⚠ Only ${available.displayName} found${colors.reset}`);
       console.log('');
-      console.log(`${colors.dim}AIC² bridges multiple AI tools - you need both installed.${colors.reset}`);
-      console.log(`${colors.dim}Install ${missingTool}:${colors.reset}`);
-      console.log(`  ${missingInstall}`);
+      console.log(`${colors.dim}AIC² bridges multiple AI tools - you need at least two installed.${colors.reset}`);
+      for (const adapter of missingTools) {
+        console.log(`${colors.dim}Install ${adapter.displayName}:${colors.reset}`);
+        console.log(`  ${adapter.installCommand || adapter.command || adapter.name}`);
+      }
       console.log('');
-      console.log(`${colors.dim}Or use ${availableTool} directly:${colors.reset} ${availableCmd}`);
+      console.log(`${colors.dim}Or use ${available.displayName} directly:${colors.reset} ${available.command || available.name}`);
       console.log('');
       process.exit(1);
     }
+
+    // Default tool isn't installed - fall back to the first one that is
+    if (!this.availableTools.includes(this.activeTool)) {
+      this.activeTool = this.availableTools[0];
+    }
     
     // Clear screen and show splash
     console.clear();
@@ -517,12 +779,9 @@ export class SDKSession {
       `${colors.brightCyan}A${colors.brightMagenta}I${colors.reset} ${colors.brightYellow}C${colors.white}ode${colors.reset} ${colors.brightYellow}C${colors.white}onnect${colors.reset}  ${colors.dim}v${VERSION}${colors.reset}`,
       '',
       `${colors.dim}Connected Tools:${colors.reset}`,
-      claudeAvailable
-        ? `✅ ${colors.brightCyan}Claude Code${colors.reset} ${colors.dim}ready${colors.reset}`
-        : `❌ ${colors.dim}Claude Code (not found)${colors.reset}`,
-      geminiAvailable
-        ? `✅ ${colors.brightMagenta}Gemini CLI${colors.reset} ${colors.dim}ready${colors.reset}`
-        : `❌ ${colors.dim}Gemini CLI (not found)${colors.reset}`,
+      ...adapters.map(adapter => this.availableTools.includes(adapter.name)
+        ? `✅ ${adapter.color}${adapter.displayName}${colors.reset} ${colors.dim}ready${colors.reset}`
+        : `❌ ${colors.dim}${adapter.displayName} (not found)${colors.reset}`),
       '',
       `${colors.dim}📁 ${this.cwd}${colors.reset}`,
     ];
@@ -555,8 +814,7 @@ export class SDKSession {
 
     // Commands in a wider layout (single slash = AIC commands, double slash = tool commands via interactive mode)
     const commandsLeft = [
-      `  ${rainbowText('/claude')}        Switch to Claude Code ${colors.dim}(-i for interactive)${colors.reset}`,
-      `  ${rainbowText('/gemini', 1)}        Switch to Gemini CLI ${colors.dim}(-i for interactive)${colors.reset}`,
+      ...adapters.map((adapter, i) => this.formatToolSwitchLine(adapter, i, '-i for interactive')),
       `  ${rainbowText('/i', 2)}             Enter interactive mode`,
       `  ${rainbowText('/forward', 3)}       Forward response ${colors.dim}[tool] [msg]${colors.reset}`,
       `  ${rainbowText('/forwardi', 4)}      Forward + interactive ${colors.dim}(or -i flag)${colors.reset}`,
@@ -595,10 +853,13 @@ export class SDKSession {
     console.log('');
     
     // Show active tool with full width separator
-    const toolColor = this.activeTool === 'claude' ? colors.brightCyan : colors.brightMagenta;
-    const toolName = this.activeTool === 'claude' ? 'Claude Code' : 'Gemini CLI';
+    const toolColor = this.getToolColor(this.activeTool);
+    const toolName = this.getToolDisplayName(this.activeTool);
     console.log(fullWidthLine('═'));
     console.log(`  ${colors.green}●${colors.reset} Active: ${toolColor}${toolName}${colors.reset}`);
+    if (this.resumedSession) {
+      console.log(`  ${colors.green}↩${colors.reset} Resumed session ${colors.brightYellow}${this.sessionId}${colors.reset} ${colors.dim}(${this.conversationHistory.length} messages)${colors.reset}`);
+    }
     console.log(fullWidthLine('─'));
     console.log('');
 
@@ -607,16 +868,21 @@ export class SDKSession {
   }
 
   private getPrompt(): string {
-    const toolColor = this.activeTool === 'claude' ? colors.brightCyan : colors.brightMagenta;
-    const toolName = this.activeTool === 'claude' ? 'Claude Code' : 'Gemini CLI';
-    return `${toolColor}❯ ${toolName}${colors.reset} ${colors.dim}→${colors.reset} `;
+    const toolColor = this.getToolColor(this.activeTool);
+    const toolName = this.getToolDisplayName(this.activeTool);
+    const model = this.toolModels.get(this.activeTool);
+    const modelNote = model ? ` ${colors.dim}(${model})${colors.reset}` : '';
+    const mode = this.toolModes.get(this.activeTool);
+    const modeNote = mode ? ` ${this.formatMode(mode)}` : '';
+    return `${toolColor}❯ ${toolName}${colors.reset}${modelNote}${modeNote} ${colors.dim}→${colors.reset} `;
   }
 
   /**
    * Tab completion for / commands
    */
   private completer(line: string): CompleterResult {
-    const commands = ['/claude', '/gemini', '/i', '/forward', '/fwd', '/forwardi', '/fwdi', '/history', '/status', '/default', '/help', '/clear', '/quit', '/cya'];
+    const toolCommands = this.registry.getNames().map(name => `/${name}`);
+    const commands = [...toolCommands, '/i', '/forward', '/fwd', '/forwardi', '/fwdi', '/debate', '/both', '/all', '/history', '/export', '/sessions', '/usage', '/mode', '/model', '/role', '/status', '/default', '/help', '/clear', '/quit', '/cya'];
     
     // Only complete if line starts with /
     if (line.startsWith('/')) {
@@ -641,13 +907,18 @@ export class SDKSession {
 
     // Handle Ctrl+C gracefully - exit the application
     this.rl.on('SIGINT', () => {
-      if (this.requestInProgress) {
-        console.log(`\n${colors.yellow}Request in progress - please wait or use /i to interact${colors.reset}`);
+      // Cancel the running request instead of exiting
+      if (this.requestController) {
+        if (!this.requestController.signal.aborted) {
+          console.log(`\n${colors.yellow}Cancelling request...${colors.reset}`);
+          this.requestController.abort();
+        }
         return;
       }
 
       console.log('\n');
       this.rl?.close();
+      this.persistSession();
       this.cleanup().then(() => {
         console.log(`${colors.brightYellow}👋 Goodbye!${colors.reset}\n`);
         process.exit(0);
@@ -681,7 +952,12 @@ export class SDKSession {
       // e.g., //status -> enters interactive mode, sends /status, user stays in control
       if (trimmed.startsWith('//')) {
         const slashCmd = trimmed.slice(1); // e.g., "/status"
-        const toolName = this.activeTool === 'claude' ? 'Claude Code' : 'Gemini CLI';
+        const toolName = this.getToolDisplayName(this.activeTool);
+
+        if (this.registry.get(this.activeTool)?.interactiveMode === 'repl') {
+          console.log(`${colors.yellow}${toolName} has no tool commands - //command needs a CLI tool.${colors.reset}`);
+          continue;
+        }
         
         // Show rainbow "Entering Interactive Mode" message
         await animateRainbow(`Entering Interactive Mode for ${toolName}...`, 500);
@@ -698,15 +974,17 @@ export class SDKSession {
         continue;
       }
 
-      // Send regular input to active tool
-      await this.sendToTool(trimmed);
+      // Send regular input to active tool - "!edit ..." picks a permission profile for this message
+      const { profile, message } = parseProfilePrefix(trimmed, this.getToolProfiles(this.activeTool));
+      this.startChain();
+      await this.sendToTool(message, { profile });
     }
   }
 
-  private readInput(): Promise<string> {
+  private readInput(prompt: string = this.getPrompt()): Promise<string> {
     return new Promise((resolve) => {
       // Update prompt in case tool changed
-      this.rl?.setPrompt(this.getPrompt());
+      this.rl?.setPrompt(prompt);
       this.rl?.prompt();
       
       const lineHandler = (line: string) => {
@@ -751,32 +1029,13 @@ export class SDKSession {
       case 'quit':
       case 'exit':
       case 'cya':
+        this.persistSession();
         await this.cleanup();
         console.log(`\n${colors.brightYellow}👋 Goodbye!${colors.reset}\n`);
         this.isRunning = false;
         process.exit(0);
         break;
 
-      case 'claude': {
-        const hasInteractive = parts.slice(1).includes('-i');
-        this.activeTool = 'claude';
-        console.log(`${colors.green}●${colors.reset} Switched to ${colors.brightCyan}Claude Code${colors.reset}`);
-        if (hasInteractive) {
-          await this.enterInteractiveMode();
-        }
-        break;
-      }
-
-      case 'gemini': {
-        const hasInteractive = parts.slice(1).includes('-i');
-        this.activeTool = 'gemini';
-        console.log(`${colors.green}●${colors.reset} Switched to ${colors.brightMagenta}Gemini CLI${colors.reset}`);
-        if (hasInteractive) {
-          await this.enterInteractiveMode();
-        }
-        break;
-      }
-
       case 'forward':
       case 'fwd': {
         // Check for -i flag for interactive mode
@@ -787,6 +1046,23 @@ export class SDKSession {
         break;
       }
 
+      case 'debate':
+        await this.handleDebate(parts.slice(1).join(' '));
+        break;
+
+      case 'both':
+      case 'all': {
+        const broadcastArgs = parts.slice(1);
+        // Only leading flags count - "/both what does ls -s do" keeps its -s
+        let stacked = false;
+        while (broadcastArgs[0] === '--stack' || broadcastArgs[0] === '-s') {
+          stacked = true;
+          broadcastArgs.shift();
+        }
+        await this.handleBroadcast(broadcastArgs.join(' '), stacked);
+        break;
+      }
+
       case 'forwardi':
       case 'fwdi':
         // Forward and enter interactive mode
@@ -800,7 +1076,35 @@ export class SDKSession {
         break;
 
       case 'history':
-        this.showHistory();
+        await this.showHistory(parts.slice(1));
+        break;
+
+      case 'export':
+        this.handleExport(parts.slice(1));
+        break;
+
+      case 'usage':
+        this.showUsage();
+        break;
+
+      case 'mode':
+        this.handleMode(parts.slice(1));
+        break;
+
+      case 'model':
+        this.handleModel(parts.slice(1));
+        break;
+
+      case 'role':
+        this.handleRole(parts.slice(1));
+        break;
+
+      case 'sessions':
+        if (parts[1]) {
+          await this.reopenSession(parts[1]);
+        } else {
+          this.showSessions();
+        }
         break;
 
       case 'status':
@@ -808,8 +1112,17 @@ export class SDKSession {
         break;
 
       case 'clear':
+        this.persistSession();
         await this.cleanup();
+        // Tools start new sessions too - otherwise they'd resume the old ones (and miss role changes)
+        for (const adapter of this.registry.getAll()) {
+          adapter.resetContext();
+        }
         this.conversationHistory = [];
+        this.currentChain = 0;
+        // Start a new saved session - the previous one stays available via /sessions
+        this.sessionId = createSessionId();
+        this.sessionCreatedAt = Date.now();
         console.log('Sessions and history cleared.');
         break;
 
@@ -817,7 +1130,7 @@ export class SDKSession {
         const toolArg = parts[1];
         if (toolArg) {
           // Set new default
-          const result = setDefaultTool(toolArg);
+          const result = setDefaultTool(toolArg, this.registry.getNames());
           if (result.success) {
             console.log(`${colors.green}✓${colors.reset} ${result.message}`);
           } else {
@@ -825,9 +1138,9 @@ export class SDKSession {
           }
         } else {
           // Show current default
-          const currentDefault = getDefaultTool();
+          const currentDefault = getDefaultTool(this.registry.getNames());
           console.log(`${colors.dim}Current default tool:${colors.reset} ${colors.brightYellow}${currentDefault}${colors.reset}`);
-          console.log(`${colors.dim}Usage:${colors.reset} /default <claude|gemini>`);
+          console.log(`${colors.dim}Usage:${colors.reset} /default <${this.registry.getNames().join('|')}>`);
         }
         break;
 
@@ -837,26 +1150,62 @@ export class SDKSession {
         break;
 
       default:
+        // /<tool> switches to any registered tool
+        if (this.registry.get(command)) {
+          await this.switchTool(command, parts.slice(1).includes('-i'));
+          break;
+        }
         console.log(`${colors.red}✗${colors.reset} Unknown AIC command: ${colors.brightYellow}/${command}${colors.reset}`);
         console.log(`${colors.dim}  Type ${colors.brightYellow}/help${colors.dim} to see available commands.${colors.reset}`);
         console.log(`${colors.dim}  To send /${command} to the tool, use ${colors.brightYellow}//${command}${colors.reset}`);
     }
   }
 
+  /**
+   * Make a registered tool the active one, optionally entering interactive mode
+   */
+  private async switchTool(name: string, interactive: boolean): Promise<void> {
+    this.activeTool = name;
+    console.log(`${colors.green}●${colors.reset} Switched to ${this.getToolColor(name)}${this.getToolDisplayName(name)}${colors.reset}`);
+    if (interactive) {
+      await this.enterInteractiveMode();
+    }
+  }
+
+  /**
+   * "/name  Switch to ..." line for the splash screen and /help
+   */
+  private formatToolSwitchLine(adapter: ToolAdapter, offset: number, hint: string): string {
+    const command = `/${adapter.name}`;
+    const padding = ' '.repeat(Math.max(1, 15 - command.length));
+    return `  ${rainbowText(command, offset)}${padding}Switch to ${adapter.displayName} ${colors.dim}(${hint})${colors.reset}`;
+  }
+
   private showHelp(): void {
     console.log('');
     console.log(`${colors.brightCyan}A${colors.brightMagenta}I${colors.reset} ${colors.brightYellow}C${colors.white}ode${colors.reset} ${colors.brightYellow}C${colors.white}onnect${colors.reset}² ${colors.dim}- Commands${colors.reset}`);
     console.log('');
     console.log(`${colors.white}Session Commands:${colors.reset}`);
-    console.log(`  ${rainbowText('/claude')}        Switch to Claude Code ${colors.dim}(add -i for interactive)${colors.reset}`);
-    console.log(`  ${rainbowText('/gemini')}        Switch to Gemini CLI ${colors.dim}(add -i for interactive)${colors.reset}`);
+    for (const adapter of this.registry.getAll()) {
+      console.log(this.formatToolSwitchLine(adapter, 0, 'add -i for interactive'));
+    }
     console.log(`  ${rainbowText('/i')}             Enter interactive mode ${colors.dim}(Ctrl+] or Ctrl+\\ to detach, Ctrl+6 or Ctrl+Q to toggle)${colors.reset}`);
     console.log(`  ${rainbowText('/forward')}       Forward last response ${colors.dim}[tool] [msg]${colors.reset}`);
+    console.log(`  ${rainbowText('/forward #n')}    Forward history entries instead ${colors.dim}(#7, #5-#9 or --last 3, numbered as in /history)${colors.reset}`);
+    console.log(`  ${rainbowText('/forward --as')}  Forward with a template ${colors.dim}<review|implement|critique-security|summarize|...> [tool]${colors.reset}`);
     console.log(`  ${rainbowText('/forward -i')}    Forward and enter interactive mode`);
     console.log(`  ${rainbowText('/forwardi')}      Same as /forward -i ${colors.dim}(alias: /fwdi)${colors.reset}`);
-    console.log(`  ${rainbowText('/history')}       Show conversation history`);
+    console.log(`  ${rainbowText('/debate')}        Multi-round debate between tools ${colors.dim}[rounds] <topic>${colors.reset}`);
+    console.log(`  ${rainbowText('/both')}          Send a prompt to every tool in parallel ${colors.dim}(alias: /all, --stack to stack)${colors.reset}`);
+    console.log(`  ${rainbowText('/history')}       Show conversation history ${colors.dim}[n] to read a message in full, --tool <name>, --grep <regex>${colors.reset}`);
+    console.log(`  ${rainbowText('/export')}        Write the conversation to a file ${colors.dim}[md|json|html] [path]${colors.reset}`);
+    console.log(`  ${rainbowText('/sessions')}      List saved sessions ${colors.dim}[id] to reopen${colors.reset}`);
+    console.log(`  ${rainbowText('/usage')}         Token usage and cost per tool, session and forward chain`);
+    console.log(`  ${rainbowText('/mode')}          Set what print mode may do ${colors.dim}[tool] <readonly|edit|...>, or !edit before a message${colors.reset}`);
+    console.log(`  ${rainbowText('/model')}         Show or set a tool's model ${colors.dim}[tool] [name|default]${colors.reset}`);
+    console.log(`  ${rainbowText('/role')}          Show or set a tool's role ${colors.dim}[tool] [text|clear]${colors.reset}`);
     console.log(`  ${rainbowText('/status')}        Show running processes`);
-    console.log(`  ${rainbowText('/default')}       Set default tool ${colors.dim}<claude|gemini>${colors.reset}`);
+    console.log(`  ${rainbowText('/default')}       Set default tool ${colors.dim}<${this.registry.getNames().join('|')}>${colors.reset}`);
     console.log(`  ${rainbowText('/clear')}         Clear sessions and history`);
     console.log(`  ${rainbowText('/help')}          Show this help`);
     console.log(`  ${rainbowText('/quit')}          Exit ${colors.dim}(or /cya)${colors.reset}`);
@@ -878,25 +1227,23 @@ export class SDKSession {
    * Used for /fwdi to send via print mode without showing output,
    * then user sees response in interactive mode.
    */
-  private async sendToToolSilent(message: string, statusMessage: string): Promise<boolean> {
+  private async sendToToolSilent(message: string, statusMessage: string, origin: MessageOrigin = {}): Promise<boolean> {
     if (this.requestInProgress) {
       console.log(`${colors.yellow}⏳ Please wait for the current request to finish${colors.reset}`);
       return false;
     }
 
-    this.requestInProgress = true;
+    const signal = this.beginRequest();
 
     // Record user message
-    this.conversationHistory.push({
+    this.recordMessage({
       tool: this.activeTool,
       role: 'user',
       content: message,
+      mode: origin.mode ?? 'print',
+      forwardedFrom: origin.forwardedFrom,
     });
 
-    while (this.conversationHistory.length > MAX_HISTORY_SIZE) {
-      this.conversationHistory.shift();
-    }
-
     const adapter = this.registry.get(this.activeTool);
     const toolColor = adapter?.color || colors.white;
 
@@ -916,64 +1263,75 @@ export class SDKSession {
         throw new Error(`Unknown tool: ${this.activeTool}`);
       }
 
-      const response = await adapter.send(message, {
+      const result = await adapter.send(message, {
         cwd: this.cwd,
         continueSession: true,
+        model: this.toolModels.get(adapter.name),
+        role: this.toolRoles.get(adapter.name),
+        permissionArgs: this.getToolPermissionArgs(adapter.name),
         timeout: REQUEST_TIMEOUT_MS,
+        signal,
       });
 
       spinner.stop();
 
+      // The response isn't displayed, but problems with the request still are
+      for (const warning of result.warnings ?? []) {
+        console.log(`${colors.yellow}⚠ ${warning}${colors.reset}`);
+      }
+
       // Record assistant response (but don't display it)
-      this.conversationHistory.push({
+      this.recordMessage({
         tool: this.activeTool,
         role: 'assistant',
-        content: response,
+        content: result.text,
+        mode: origin.mode ?? 'print',
+        changes: adapter.getLastChanges?.() ?? undefined,
+        ...getResultFields(result),
       });
-
-      while (this.conversationHistory.length > MAX_HISTORY_SIZE) {
-        this.conversationHistory.shift();
-      }
+      this.persistSession();
 
       return true;
     } catch (error) {
       spinner.stop();
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`\n${colors.red}Error:${colors.reset} ${errorMessage}\n`);
+      this.reportRequestError(error, signal);
       this.conversationHistory.pop();
       return false;
     } finally {
-      this.requestInProgress = false;
+      this.endRequest();
     }
   }
 
-  private async sendToTool(message: string): Promise<void> {
+  /**
+   * Send a message to the active tool, render the response and record both in history.
+   * Returns the response, or null if the request failed or couldn't start.
+   */
+  private async sendToTool(message: string, options: MessageOrigin & { round?: number; profile?: string } = {}): Promise<string | null> {
     // Prevent concurrent requests
     if (this.requestInProgress) {
       console.log(`${colors.yellow}⏳ Please wait for the current request to finish${colors.reset}`);
-      return;
+      return null;
     }
 
-    this.requestInProgress = true;
+    const signal = this.beginRequest();
 
     // Record user message
-    this.conversationHistory.push({
+    this.recordMessage({
       tool: this.activeTool,
       role: 'user',
       content: message,
+      round: options.round,
+      mode: options.mode ?? 'print',
+      forwardedFrom: options.forwardedFrom,
     });
 
-    // Enforce history size limit
-    while (this.conversationHistory.length > MAX_HISTORY_SIZE) {
-      this.conversationHistory.shift();
-    }
-
     const adapter = this.registry.get(this.activeTool);
     const toolColor = adapter?.color || colors.white;
     const toolName = adapter?.displayName || this.activeTool;
 
-    // Start spinner
-    const spinner = new Spinner(`${toolColor}${toolName}${colors.reset} is thinking`);
+    // Start spinner (naming the permission profile if it's just for this message)
+    const modeNote = options.profile ? ` ${this.formatMode(options.profile)}` : '';
+    const spinner = new Spinner(`${toolColor}${toolName}${colors.reset} is thinking${modeNote}`);
     spinner.start();
 
     try {
@@ -991,45 +1349,121 @@ export class SDKSession {
         throw new Error(`Unknown tool: ${this.activeTool}`);
       }
 
-      const response = await adapter.send(message, {
+      // Tools that stream show the answer block by block as it arrives
+      const markdown = new MarkdownStream(text => marked.parse(text) as string);
+      let streaming = false;
+      const onChunk = (text: string) => {
+        if (!streaming) {
+          streaming = true;
+          spinner.stop();
+          console.log('');
+        }
+        process.stdout.write(markdown.push(text));
+      };
+
+      const result = await adapter.send(message, {
         cwd: this.cwd,
         continueSession: true,
+        model: this.toolModels.get(adapter.name),
+        role: this.toolRoles.get(adapter.name),
+        permissionArgs: this.getToolPermissionArgs(adapter.name, options.profile),
         timeout: REQUEST_TIMEOUT_MS,
+        signal,
+        onChunk,
       });
+      const response = result.text;
 
       spinner.stop();
 
-      // Render the response
-      console.log('');
-      if (response) {
-        const rendered = marked.parse(response) as string;
-        process.stdout.write(rendered);
+      // Render the response (or what's left of it, if it was streamed)
+      if (streaming) {
+        process.stdout.write(markdown.flush());
+      } else {
+        console.log('');
+        if (response) {
+          const rendered = marked.parse(response) as string;
+          process.stdout.write(rendered);
+        }
+      }
+      const changes = adapter.getLastChanges?.() ?? undefined;
+      if (changes) {
+        console.log(`${colors.dim}✎ ${describeChanges(adapter.displayName, changes)}${colors.reset}`);
+      }
+      for (const warning of result.warnings ?? []) {
+        console.log(`${colors.yellow}⚠ ${warning}${colors.reset}`);
       }
+      console.log(`${colors.dim}${formatResultSummary(result)}${colors.reset}`);
       console.log('');
 
       // Record assistant response
-      this.conversationHistory.push({
+      this.recordMessage({
         tool: this.activeTool,
         role: 'assistant',
         content: response,
+        round: options.round,
+        mode: options.mode ?? 'print',
+        changes,
+        ...getResultFields(result),
       });
-
-      // Enforce history size limit again after adding response
-      while (this.conversationHistory.length > MAX_HISTORY_SIZE) {
-        this.conversationHistory.shift();
-      }
+      this.persistSession();
+      return response;
     } catch (error) {
       spinner.stop();
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`\n${colors.red}Error:${colors.reset} ${errorMessage}\n`);
+      this.reportRequestError(error, signal);
 
-      // Remove the user message if failed
+      // Remove the user message if failed or cancelled
       this.conversationHistory.pop();
+      return null;
     } finally {
-      this.requestInProgress = false;
+      this.endRequest();
     }
   }
 
+  /**
+   * Mark a request as running. The returned signal aborts when the user presses Ctrl+C.
+   */
+  private beginRequest(): AbortSignal {
+    this.requestInProgress = true;
+    this.requestController = new AbortController();
+    return this.requestController.signal;
+  }
+
+  private endRequest(): void {
+    this.requestInProgress = false;
+    this.requestController = null;
+  }
+
+  /**
+   * Print a failed request's error - or just a note if the user cancelled it
+   */
+  private reportRequestError(error: unknown, signal: AbortSignal): void {
+    if (signal.aborted) {
+      console.log(`\n${colors.yellow}Request cancelled${colors.reset}\n`);
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`\n${colors.red}Error:${colors.reset} ${errorMessage}\n`);
+  }
+
+  /**
+   * Built-in chat REPL for tools without a CLI. Every line goes to the tool
+   * (recorded in history like regular messages) until /back.
+   */
+  private async runChatRepl(adapter: ToolAdapter): Promise<void> {
+    console.log(`${colors.green}●${colors.reset} Chatting with ${adapter.color}${adapter.displayName}${colors.reset} ${colors.dim}(type ${colors.brightYellow}/back${colors.dim} to return to aic)${colors.reset}`);
+    const prompt = `${adapter.color}${adapter.displayName} ›${colors.reset} `;
+
+    while (this.isRunning) {
+      const input = await this.readInput(prompt);
+      if (!input) continue;
+      if (input === '/back' || input === '/exit') break;
+      this.startChain();
+      await this.sendToTool(input);
+    }
+
+    console.log(`${colors.dim}Back in aic.${colors.reset}`);
+  }
+
   /**
    * Enter full interactive mode with the active tool.
    * Uses the unified PersistentPtyManager for session continuity.
@@ -1040,6 +1474,11 @@ export class SDKSession {
     const toolName = adapter?.displayName || this.activeTool;
     const toolColor = adapter?.color || colors.white;
 
+    // Tools without a CLI (e.g. HTTP chat servers) get the built-in chat REPL instead of a PTY
+    if (adapter?.interactiveMode === 'repl') {
+      return this.runChatRepl(adapter);
+    }
+
     // Check if this is a first launch (no existing manager)
     const existingManager = this.ptyManagers.get(this.activeTool);
     const isFirstLaunch = !existingManager || existingManager.isDead();
@@ -1182,17 +1621,16 @@ export class SDKSession {
             const cleanedResponse = adapter.cleanResponse(newOutput);
             // Only add if there's meaningful content (not just prompts/empty)
             if (cleanedResponse && cleanedResponse.length > 20) {
-              this.conversationHistory.push({
+              this.startChain();
+              this.recordMessage({
                 tool: this.activeTool,
                 role: 'assistant',
                 content: cleanedResponse,
+                mode: 'interactive',
               });
               // Mark buffer position as saved so next detach only gets new content
               manager.markBufferAsSaved();
-              // Enforce history size limit
-              while (this.conversationHistory.length > MAX_HISTORY_SIZE) {
-                this.conversationHistory.shift();
-              }
+              this.persistSession();
             }
           }
         }
@@ -1216,9 +1654,14 @@ export class SDKSession {
 
         // Determine target tool BEFORE async operations (for immediate feedback)
         const currentTool = this.activeTool;
-        const otherTools = AVAILABLE_TOOLS
-          .map(t => t.name)
-          .filter(t => t !== currentTool);
+        // Cycle through installed tools in registration order
+        // (tools without a PTY can't be toggled to)
+        const ptyTools = this.availableTools.filter(t => this.registry.get(t)?.interactiveMode !== 'repl');
+        const currentIndex = ptyTools.indexOf(currentTool);
+        const otherTools = [
+          ...ptyTools.slice(currentIndex + 1),
+          ...ptyTools.slice(0, Math.max(0, currentIndex)),
+        ];
 
         if (otherTools.length === 0) {
           console.log(`\n${colors.yellow}No other tool to toggle to.${colors.reset}`);
@@ -1230,11 +1673,11 @@ export class SDKSession {
           return;
         }
 
-        const targetTool = otherTools[0] as 'claude' | 'gemini';
+        const targetTool = otherTools[0];
         const targetAdapter = this.registry.get(targetTool);
-        const sourceColor = getToolColor(currentTool);
-        const targetColor = getToolColor(targetTool);
-        const sourceName = getToolDisplayName(currentTool);
+        const sourceColor = this.getToolColor(currentTool);
+        const targetColor = this.getToolColor(targetTool);
+        const sourceName = this.getToolDisplayName(currentTool);
         const targetName = targetAdapter?.displayName || targetTool;
 
         // Show immediate visual feedback BEFORE async operations
@@ -1252,16 +1695,16 @@ export class SDKSession {
             if (adapter) {
               const cleanedResponse = adapter.cleanResponse(newOutput);
               if (cleanedResponse && cleanedResponse.length > 20) {
-                this.conversationHistory.push({
+                this.startChain();
+                this.recordMessage({
                   tool: currentTool,
                   role: 'assistant',
                   content: cleanedResponse,
+                  mode: 'interactive',
                 });
                 // Mark buffer position as saved
                 manager.markBufferAsSaved();
-                while (this.conversationHistory.length > MAX_HISTORY_SIZE) {
-                  this.conversationHistory.shift();
-                }
+                this.persistSession();
               }
             }
           }
@@ -1399,9 +1842,9 @@ export class SDKSession {
   private showStatus(): void {
     console.log('');
 
-    const statusLines = AVAILABLE_TOOLS.map(tool => {
+    const statusLines = this.registry.getAll().map(tool => {
       const manager = this.ptyManagers.get(tool.name);
-      const icon = tool.name === 'claude' ? '◆' : '◇';
+      const icon = tool.name === this.activeTool ? '◆' : '◇';
 
       // Check if we have conversation history for this tool
       const hasHistory = this.conversationHistory.some(m => m.tool === tool.name);
@@ -1423,9 +1866,18 @@ export class SDKSession {
         status = `${colors.dim}○ Stopped${colors.reset}`;
       }
 
+      const model = this.toolModels.get(tool.name);
+      const modelNote = model ? `${colors.dim}[${model}]${colors.reset} ` : '';
+      const mode = this.toolModes.get(tool.name);
+      const modeNote = mode ? `${this.formatMode(mode)} ` : '';
       const historyNote = hasHistory ? `${colors.dim}(has history)${colors.reset}` : '';
-      return `${tool.color}${icon} ${tool.displayName.padEnd(12)}${colors.reset} ${status}  ${historyNote}`;
-    });
+      const line = `${tool.color}${icon} ${tool.displayName.padEnd(12)}${colors.reset} ${status}  ${modeNote}${modelNote}${historyNote}`;
+
+      const role = this.toolRoles.get(tool.name);
+      if (!role) return [line];
+      const preview = role.length > 48 ? role.slice(0, 48) + '...' : role;
+      return [line, `  ${colors.dim}role: ${preview}${colors.reset}`];
+    }).flat();
 
     // Add current request status
     if (this.requestInProgress) {
@@ -1438,23 +1890,46 @@ export class SDKSession {
   }
 
   private async handleForward(argsString: string, interactive: boolean = false): Promise<void> {
-    // Find the last assistant response
+    const args = argsString.trim().split(/\s+/).filter(p => p);
+
+    // --as <template> picks the instructions the target gets (review, implement, ...)
+    let templateName: string | undefined;
+    const asIndex = args.indexOf('--as');
+    if (asIndex !== -1) {
+      templateName = args[asIndex + 1];
+      if (!templateName) {
+        console.log(`${colors.dim}Usage:${colors.reset} /forward --as <template> [tool] [message]`);
+        return;
+      }
+      args.splice(asIndex, 2);
+    }
+
+    // Entries picked by number (#7, #5-#9, --last 3) as /history shows them
+    const { selection, rest: parts, error } = parseHistorySelection(args, this.conversationHistory.length);
+    if (error) {
+      console.log(`${colors.red}✗${colors.reset} ${error}`);
+      return;
+    }
+
+    // Without a selection, find the last assistant response
     const lastResponse = [...this.conversationHistory]
       .reverse()
       .find(m => m.role === 'assistant');
+    const entries = selection
+      ? this.conversationHistory.slice(selection.first - 1, selection.last)
+      : lastResponse ? [lastResponse] : [];
 
-    if (!lastResponse) {
+    if (entries.length === 0) {
       console.log('No response to forward yet.');
       return;
     }
 
-    const sourceTool = lastResponse.tool;
-    const otherTools = AVAILABLE_TOOLS
-      .map(t => t.name)
-      .filter(t => t !== sourceTool);
+    // The tool that gave the last forwarded answer (or was sent the last forwarded prompt)
+    const sourceEntry = [...entries].reverse().find(m => m.role === 'assistant') ?? entries[entries.length - 1];
+    const sourceTool = sourceEntry.tool;
+    const otherTools = this.availableTools.filter(t => t !== sourceTool);
 
     // Parse args: first word might be a tool name
-    const parts = argsString.trim().split(/\s+/).filter(p => p);
     let targetTool: string;
     let additionalMessage: string;
 
@@ -1466,7 +1941,7 @@ export class SDKSession {
       // No tool specified - auto-select if only one other tool
       if (otherTools.length === 1) {
         targetTool = otherTools[0];
-        additionalMessage = argsString;
+        additionalMessage = parts.join(' ');
       } else {
         // Multiple tools available - require explicit selection
         console.log(`${colors.yellow}Multiple tools available.${colors.reset} Please specify target:`);
@@ -1481,31 +1956,67 @@ export class SDKSession {
       return;
     }
 
+    // Without --as, the target's own default template applies, if it has one
+    const templates = getForwardTemplates();
+    templateName ??= this.toolConfigs.get(targetTool)?.forwardTemplate;
+    const template = templateName ? getForwardTemplate(templateName, templates) : undefined;
+    if (templateName && !template) {
+      console.log(`${colors.red}✗${colors.reset} Unknown forward template "${templateName}". Valid options: ${getForwardTemplateNames(templates).join(', ')}`);
+      return;
+    }
+
     // Switch to target tool
-    this.activeTool = targetTool as 'claude' | 'gemini';
+    this.activeTool = targetTool;
 
-    const sourceDisplayName = getToolDisplayName(sourceTool);
-    const targetDisplayName = getToolDisplayName(targetTool);
-    const sourceColor = getToolColor(sourceTool);
-    const targetColor = getToolColor(targetTool);
+    const sourceDisplayName = this.getToolDisplayName(sourceTool);
+    const targetDisplayName = this.getToolDisplayName(targetTool);
+    const sourceColor = this.getToolColor(sourceTool);
+    const targetColor = this.getToolColor(targetTool);
 
     console.log('');
     console.log(`${colors.dim}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${colors.reset}`);
-    console.log(`${colors.green}↗${colors.reset} Forwarding from ${sourceColor}${sourceDisplayName}${colors.reset} → ${targetColor}${targetDisplayName}${colors.reset}${interactive ? ` ${colors.dim}(interactive)${colors.reset}` : ''}`);
+    const source = !selection
+      ? `from ${sourceColor}${sourceDisplayName}${colors.reset}`
+      : selection.first === selection.last ? `#${selection.first}` : `#${selection.first}-#${selection.last}`;
+    const templateNote = templateName ? ` ${colors.dim}as ${templateName}${colors.reset}` : '';
+    console.log(`${colors.green}↗${colors.reset} Forwarding ${source} → ${targetColor}${targetDisplayName}${colors.reset}${templateNote}${interactive ? ` ${colors.dim}(interactive)${colors.reset}` : ''}`);
     console.log(`${colors.dim}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${colors.reset}`);
 
-    // Build forward prompt
-    let forwardPrompt = `Another AI assistant (${sourceDisplayName}) provided this response. Please review and share your thoughts:\n\n---\n${lastResponse.content}\n---`;
-
-    if (additionalMessage.trim()) {
-      forwardPrompt += `\n\nAdditional context: ${additionalMessage.trim()}`;
+    // Build forward prompt - picked entries are numbered in the envelope
+    const forwardEntries = selection
+      ? entries.map((entry, index) => ({
+        number: selection.first + index,
+        speaker: entry.role === 'user' ? 'User' : this.getToolDisplayName(entry.tool),
+        content: entry.content,
+        changes: entry.changes,
+      }))
+      : [];
+    let forwardPrompt: string;
+    if (template) {
+      forwardPrompt = renderForwardTemplate(template, {
+        source: sourceDisplayName,
+        target: targetDisplayName,
+        content: selection ? formatHistoryEntries(forwardEntries) : entries[0].content,
+        note: additionalMessage,
+        // Changes of picked entries are listed with each entry
+        changes: selection ? undefined : entries[0].changes,
+        cwd: this.cwd,
+        branch: template.includes('{branch}') ? (await getGitBranch(this.cwd)) ?? 'unknown' : undefined,
+      });
+    } else {
+      forwardPrompt = selection
+        ? buildHistoryForwardPrompt(forwardEntries, additionalMessage)
+        : buildForwardPrompt(sourceDisplayName, entries[0].content, additionalMessage, entries[0].changes);
     }
 
-    if (interactive) {
+    // Record which messages the target was shown, so /history can trace the forward
+    const origin: MessageOrigin = { mode: 'forward', forwardedFrom: entries.flatMap(entry => (entry.id ? [entry.id] : [])) };
+
+    if (interactive && this.registry.get(targetTool)?.interactiveMode !== 'repl') {
       // Silent send: show status spinner, don't display response
       // User will see the response when interactive mode opens
       const statusMessage = `Sending to ${targetDisplayName}... Interactive mode will launch shortly`;
-      const success = await this.sendToToolSilent(forwardPrompt, statusMessage);
+      const success = await this.sendToToolSilent(forwardPrompt, statusMessage, origin);
 
       if (success) {
         console.log(`\n${colors.dim}Launching interactive mode...${colors.reset}`);
@@ -1514,38 +2025,737 @@ export class SDKSession {
     } else {
       // Regular /fwd: show spinner and display response
       console.log(`${targetColor}${targetDisplayName} responds:${colors.reset}`);
-      await this.sendToTool(forwardPrompt);
+      const response = await this.sendToTool(forwardPrompt, origin);
+
+      // Chat REPL tools have no screen to replay - show the response, then open the REPL
+      if (interactive && response !== null) {
+        await this.enterInteractiveMode();
+      }
     }
   }
 
-  private showHistory(): void {
+  /**
+   * Send one prompt to every available tool in parallel and show the answers
+   * side by side (or stacked on narrow terminals / with --stack).
+   */
+  private async handleBroadcast(prompt: string, stacked: boolean): Promise<void> {
+    if (!prompt.trim()) {
+      console.log(`${colors.dim}Usage:${colors.reset} /both [--stack] <prompt>`);
+      return;
+    }
+
+    if (this.requestInProgress) {
+      console.log(`${colors.yellow}⏳ Please wait for the current request to finish${colors.reset}`);
+      return;
+    }
+
+    const adapters = await this.registry.getAvailable();
+    if (adapters.length < 2) {
+      console.log(`${colors.yellow}Broadcasting needs at least two available tools.${colors.reset}`);
+      return;
+    }
+
+    const signal = this.beginRequest();
+    const message = prompt.trim();
+
+    try {
+      // Kill any existing PTYs to avoid session conflicts (same as sendToTool)
+      for (const adapter of adapters) {
+        const existingManager = this.ptyManagers.get(adapter.name);
+        if (existingManager && !existingManager.isDead()) {
+          existingManager.kill(true);
+          this.ptyManagers.delete(adapter.name);
+        }
+      }
+
+      const spinner = new MultiSpinner(adapters.map(a => `${a.color}${a.displayName}${colors.reset}`));
+      spinner.start();
+
+      const results = await Promise.all(adapters.map(async (adapter, index) => {
+        try {
+          const sendResult = await adapter.send(message, {
+            cwd: this.cwd,
+            continueSession: true,
+            model: this.toolModels.get(adapter.name),
+            role: this.toolRoles.get(adapter.name),
+            permissionArgs: this.getToolPermissionArgs(adapter.name),
+            timeout: REQUEST_TIMEOUT_MS,
+            signal,
+          });
+          spinner.markDone(index);
+          return {
+            adapter,
+            response: sendResult.text,
+            sendResult,
+            changes: adapter.getLastChanges?.() ?? undefined,
+            error: null as string | null,
+          };
+        } catch (error) {
+          spinner.markDone(index, true);
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          return { adapter, response: '', sendResult: null, changes: undefined, error: errorMessage };
+        }
+      }));
+
+      spinner.stop();
+
+      // Record each successful answer (with its prompt) so any of them can be forwarded.
+      // Tools that answered before a Ctrl+C have the turn in their sessions, so their
+      // answers are kept too, marked as coming from a cancelled broadcast.
+      const cancelNote = signal.aborted ? ['Broadcast cancelled before every tool answered'] : [];
+      const answered = results.filter(result => result.sendResult !== null);
+      if (answered.length > 0) {
+        this.startChain();
+      }
+      for (const result of results) {
+        if (!result.sendResult) continue;
+        const fields = getResultFields(result.sendResult);
+        const warnings = [...cancelNote, ...(fields.warnings ?? [])];
+        this.recordMessage({ tool: result.adapter.name, role: 'user', content: message, mode: 'broadcast' });
+        this.recordMessage({
+          tool: result.adapter.name,
+          role: 'assistant',
+          content: result.response,
+          mode: 'broadcast',
+          changes: result.changes,
+          ...fields,
+          warnings: warnings.length > 0 ? warnings : undefined,
+        });
+      }
+      this.persistSession();
+
+      if (signal.aborted) {
+        console.log(`\n${colors.yellow}Request cancelled${colors.reset}`);
+        if (answered.length > 0) {
+          const names = answered.map(result => result.adapter.displayName).join(', ');
+          console.log(`${colors.dim}Kept the answers that arrived (${names}) - see /history${colors.reset}`);
+        }
+        console.log('');
+        return;
+      }
+
+      const width = getTerminalWidth();
+      const columnWidth = Math.floor((width - (results.length - 1) * 3) / results.length);
+      console.log('');
+      if (stacked || columnWidth < MIN_COLUMN_WIDTH) {
+        this.renderStacked(results);
+      } else {
+        this.renderColumns(results, columnWidth);
+      }
+      console.log('');
+    } finally {
+      this.endRequest();
+    }
+  }
+
+  /**
+   * Render broadcast results one after another, with full markdown rendering
+   */
+  private renderStacked(results: { adapter: ToolAdapter; response: string; error: string | null }[]): void {
+    for (const { adapter, response, error } of results) {
+      console.log(fullWidthLine('─'));
+      console.log(`${adapter.color}${adapter.displayName}${colors.reset}`);
+      console.log(fullWidthLine('─'));
+      if (error !== null) {
+        console.log(`${colors.red}Error:${colors.reset} ${error}`);
+      } else if (response) {
+        process.stdout.write(marked.parse(response) as string);
+      }
+      console.log('');
+    }
+  }
+
+  /**
+   * Render broadcast results in side-by-side columns.
+   * Markdown is rendered, then stripped of color so columns can be measured and wrapped.
+   */
+  private renderColumns(
+    results: { adapter: ToolAdapter; response: string; error: string | null }[],
+    columnWidth: number
+  ): void {
+    const separator = ` ${colors.gray}│${colors.reset} `;
+    const columns = results.map(({ response, error }) => {
+      const text = error !== null
+        ? `✗ ${error}`
+        : stripAnsi(marked.parse(response) as string).trim();
+      return wrapText(text, columnWidth);
+    });
+    const pad = (text: string) => text + ' '.repeat(Math.max(0, columnWidth - stripAnsiLength(text)));
+
+    console.log(results.map(r => pad(`${r.adapter.color}${r.adapter.displayName}${colors.reset}`)).join(separator));
+    console.log(results.map(() => `${colors.gray}${'─'.repeat(columnWidth)}${colors.reset}`).join(`${colors.gray}─┼─${colors.reset}`));
+
+    const rowCount = Math.max(...columns.map(c => c.length));
+    for (let row = 0; row < rowCount; row++) {
+      const cells = columns.map((lines, i) => {
+        const line = lines[row] || '';
+        return results[i].error !== null ? pad(`${colors.red}${line}${colors.reset}`) : pad(line);
+      });
+      console.log(cells.join(separator).trimEnd());
+    }
+  }
+
+  /**
+   * Run an automatic multi-round debate between all available tools.
+   * Each turn forwards the previous speaker's response to the next tool.
+   */
+  private async handleDebate(argsString: string): Promise<void> {
+    const parsed = parseDebateArgs(argsString);
+    if (typeof parsed === 'string') {
+      console.log(`${colors.red}✗${colors.reset} ${parsed}`);
+      console.log(`${colors.dim}Usage:${colors.reset} /debate [rounds] <topic>`);
+      return;
+    }
+    const { rounds, topic } = parsed;
+
+    // Active tool opens, the other available tools follow in registry order
+    const available = (await this.registry.getAvailable()).map(a => a.name);
+    const participants = [
+      this.activeTool,
+      ...available.filter(name => name !== this.activeTool),
+    ].filter(name => available.includes(name));
+
+    if (participants.length < 2) {
+      console.log(`${colors.yellow}A debate needs at least two available tools.${colors.reset}`);
+      return;
+    }
+
+    const { stopPhrase, judgePrompt } = getDebateConfig();
+    const participantNames = participants
+      .map(name => `${this.getToolColor(name)}${this.getToolDisplayName(name)}${colors.reset}`)
+      .join(' ⇄ ');
+
+    console.log('');
+    console.log(`${colors.dim}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${colors.reset}`);
+    console.log(`${colors.green}⚖${colors.reset} Debate: ${participantNames} ${colors.dim}(${rounds} round${rounds === 1 ? '' : 's'}, stops on "${stopPhrase}")${colors.reset}`);
+    console.log(`${colors.dim}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${colors.reset}`);
+
+    this.startChain();
+    let lastSpeaker: string | null = null;
+    let lastResponse = '';
+    let lastResponseId: string | undefined;
+    let previousResponse = '';
+    let finalRound = 0;
+    let agreed = false;
+    // Speakers take turns as the active tool - give the user's back afterwards, however the debate ends
+    const originalTool = this.activeTool;
+
+    try {
+      for (let round = 1; round <= rounds && !agreed; round++) {
+        finalRound = round;
+
+        for (const tool of participants) {
+          const prompt = lastSpeaker === null
+            ? buildDebateOpeningPrompt(topic, rounds, stopPhrase)
+            : buildDebateReplyPrompt(this.getToolDisplayName(lastSpeaker), lastResponse, round, rounds, stopPhrase);
+
+          this.activeTool = tool;
+          console.log(`\n${colors.dim}Round ${round}/${rounds} ·${colors.reset} ${this.getToolColor(tool)}${this.getToolDisplayName(tool)}${colors.reset}`);
+
+          // Replies carry the previous speaker's response
+          const origin: MessageOrigin = lastResponseId ? { mode: 'forward', forwardedFrom: [lastResponseId] } : {};
+          const response = await this.sendToTool(prompt, { round, ...origin });
+          if (response === null) {
+            console.log(`${colors.yellow}Debate stopped.${colors.reset}`);
+            return;
+          }
+
+          // The opening statement can't agree with anything yet
+          const isOpening = lastSpeaker === null;
+          previousResponse = lastResponse;
+          lastSpeaker = tool;
+          lastResponse = response;
+          lastResponseId = this.conversationHistory[this.conversationHistory.length - 1]?.id;
+
+          if (!isOpening && isAgreement(response, stopPhrase)) {
+            agreed = true;
+            console.log(`${colors.green}✓${colors.reset} ${this.getToolDisplayName(tool)} agrees - ending debate early`);
+            break;
+          }
+        }
+
+        // Optional judge check between rounds (the last round goes straight to the summary)
+        if (!agreed && judgePrompt && round < rounds && lastSpeaker) {
+          const verdict = await this.judgeDebate(judgePrompt, participants, previousResponse, lastResponse);
+          if (verdict === null) {
+            console.log(`${colors.yellow}Debate stopped.${colors.reset}`);
+            return;
+          }
+          agreed = verdict;
+          if (agreed) {
+            console.log(`${colors.green}✓${colors.reset} Judge found agreement - ending debate early`);
+          }
+        }
+      }
+
+      // Closing summary from the tool that opened the debate
+      const summarizer = participants[0];
+      this.activeTool = summarizer;
+      console.log(`\n${colors.dim}Summary ·${colors.reset} ${this.getToolColor(summarizer)}${this.getToolDisplayName(summarizer)}${colors.reset}`);
+      await this.sendToTool(buildDebateSummaryPrompt(topic), { round: finalRound });
+    } finally {
+      this.activeTool = originalTool;
+    }
+  }
+
+  /**
+   * Ask the opening tool (in a one-off request) whether the last two responses agree.
+   * Returns null if the user cancelled the judge call.
+   */
+  private async judgeDebate(
+    judgePrompt: string,
+    participants: string[],
+    previousResponse: string,
+    lastResponse: string
+  ): Promise<boolean | null> {
+    const judge = this.registry.get(participants[0]);
+    if (!judge) return false;
+
+    const lastIndex = participants.length - 1;
+    const prompt = buildJudgePrompt(
+      judgePrompt,
+      { displayName: this.getToolDisplayName(participants[lastIndex - 1]), content: previousResponse },
+      { displayName: this.getToolDisplayName(participants[lastIndex]), content: lastResponse }
+    );
+
+    const signal = this.beginRequest();
+    const spinner = new Spinner(`${judge.color}${judge.displayName}${colors.reset} is judging`);
+    spinner.start();
+    try {
+      const verdict = await judge.send(prompt, {
+        cwd: this.cwd,
+        continueSession: false,
+        model: this.toolModels.get(judge.name),
+        permissionArgs: this.getToolPermissionArgs(judge.name, DEFAULT_PERMISSION_PROFILE),
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+      });
+      return isJudgeAffirmative(verdict.text);
+    } catch {
+      if (signal.aborted) {
+        return null;
+      }
+      // A failed judge call shouldn't end the debate
+      return false;
+    } finally {
+      spinner.stop();
+      this.endRequest();
+    }
+  }
+
+  /**
+   * /history [n] [--tool <name>] [--grep <regex>] - list the conversation, or show
+   * message n in full. Output that doesn't fit the screen goes through $PAGER.
+   */
+  private async showHistory(args: string[]): Promise<void> {
     if (this.conversationHistory.length === 0) {
       console.log(`\n${colors.dim}No conversation history yet.${colors.reset}\n`);
       return;
     }
 
-    console.log(`\n${colors.bold}Conversation History${colors.reset}`);
-    console.log(`${colors.dim}${'─'.repeat(50)}${colors.reset}`);
+    const { query, error } = parseHistoryArgs(args);
+    if (error) {
+      console.log(`${colors.red}✗${colors.reset} ${error}`);
+      console.log(`${colors.dim}Usage:${colors.reset} /history [n] [--tool <${this.registry.getNames().join('|')}>] [--grep <regex>]`);
+      return;
+    }
 
-    for (let i = 0; i < this.conversationHistory.length; i++) {
-      const msg = this.conversationHistory[i];
-      const isUser = msg.role === 'user';
-      const toolColor = msg.tool === 'claude' ? colors.brightCyan : colors.brightMagenta;
-      
-      let roleDisplay: string;
-      if (isUser) {
-        roleDisplay = `${colors.yellow}You${colors.reset}`;
-      } else {
-        roleDisplay = `${toolColor}${msg.tool}${colors.reset}`;
+    if (query.number !== undefined) {
+      const message = this.conversationHistory[query.number - 1];
+      if (!message) {
+        console.log(`${colors.red}✗${colors.reset} History has entries 1-${this.conversationHistory.length}`);
+        return;
       }
-      
+      await this.printPaged(this.formatHistoryMessage({ number: query.number, message }));
+      return;
+    }
+
+    const entries = filterHistory(this.conversationHistory, query);
+    if (entries.length === 0) {
+      console.log(`\n${colors.dim}No messages match.${colors.reset}\n`);
+      return;
+    }
+
+    const filters = [
+      query.tool ? `tool ${query.tool}` : '',
+      query.grep ? `matching ${query.grep}` : '',
+    ].filter(Boolean);
+    const filterNote = filters.length > 0
+      ? ` ${colors.dim}(${entries.length} of ${this.conversationHistory.length}, ${filters.join(', ')})${colors.reset}`
+      : '';
+
+    const lines = [
+      '',
+      `${colors.bold}Conversation History${colors.reset}${filterNote}`,
+      `${colors.dim}${'─'.repeat(50)}${colors.reset}`,
+    ];
+
+    for (const { number, message: msg } of entries) {
       const preview = msg.content.length > 80
         ? msg.content.slice(0, 80) + '...'
         : msg.content;
-      console.log(`${colors.dim}${String(i + 1).padStart(2)}.${colors.reset} ${roleDisplay}: ${colors.white}${preview}${colors.reset}`);
+      lines.push(`${colors.dim}${String(number).padStart(2)}.${colors.reset} ${this.formatHistorySpeaker(msg)}${this.formatForwardSource(msg)}: ${colors.white}${preview}${colors.reset}`);
+    }
+
+    lines.push(`${colors.dim}${'─'.repeat(50)}${colors.reset}`);
+    lines.push(`${colors.dim}/history <n> shows a message in full${colors.reset}`, '');
+    await this.printPaged(lines.join('\n') + '\n');
+  }
+
+  /** "You" or the tool name, with the debate round and how it was sent if not in print mode */
+  private formatHistorySpeaker(msg: Message): string {
+    let speaker = msg.role === 'user'
+      ? `${colors.yellow}You${colors.reset}`
+      : `${this.getToolColor(msg.tool)}${msg.tool}${colors.reset}`;
+    if (msg.round !== undefined) {
+      speaker += ` ${colors.dim}[round ${msg.round}]${colors.reset}`;
+    }
+    if (msg.mode === 'interactive' || msg.mode === 'broadcast') {
+      speaker += ` ${colors.dim}[${msg.mode}]${colors.reset}`;
+    }
+    return speaker;
+  }
+
+  /** " ← forwarded from #9" for forwarded prompts whose sources are still in the history */
+  private formatForwardSource(msg: Message): string {
+    const sources = getForwardSources(this.conversationHistory, msg);
+    return sources.length > 0
+      ? ` ${colors.dim}← forwarded from ${formatMessageNumbers(sources)}${colors.reset}`
+      : '';
+  }
+
+  /**
+   * One history message in full: answers are rendered as markdown, with the
+   * details the tool reported
+   */
+  private formatHistoryMessage({ number, message: msg }: NumberedMessage): string {
+    const lines = ['', `${colors.dim}#${number}${colors.reset} ${this.formatHistorySpeaker(msg)}${this.formatForwardSource(msg)}`];
+
+    // Where the message came from, back to the prompt the user typed
+    const chain = traceForwardChain(this.conversationHistory, number);
+    if (chain.length > 0) {
+      const steps = chain.map(step => {
+        const source = this.conversationHistory[step - 1];
+        if (source.role === 'assistant') return `#${step} ${this.getToolDisplayName(source.tool)}`;
+        return `#${step} ${source.forwardedFrom ? 'forward' : 'You'}`;
+      });
+      lines.push(`${colors.dim}#${number} ← ${steps.join(' ← ')}${colors.reset}`);
+    }
+    if (msg.timestamp !== undefined) {
+      lines.push(`${colors.dim}${new Date(msg.timestamp).toLocaleString()}${colors.reset}`);
+    }
+    if (msg.durationMs !== undefined) {
+      lines.push(`${colors.dim}${formatResultSummary({ ...msg, text: msg.content, durationMs: msg.durationMs })}${colors.reset}`);
+    }
+    lines.push(`${colors.dim}${'─'.repeat(50)}${colors.reset}`);
+
+    const body = msg.role === 'assistant' ? (marked.parse(msg.content) as string).trimEnd() : msg.content;
+    lines.push(body);
+    if (msg.changes) {
+      lines.push('', `${colors.dim}✎ ${describeChanges(this.getToolDisplayName(msg.tool), msg.changes)}${colors.reset}`);
+    }
+    for (const warning of msg.warnings ?? []) {
+      lines.push(`${colors.yellow}⚠ ${warning}${colors.reset}`);
+    }
+    lines.push('');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Print output, through $PAGER if it doesn't fit on the screen
+   */
+  private async printPaged(text: string): Promise<void> {
+    const rows = process.stdout.rows;
+    if (!process.stdout.isTTY || !rows || text.split('\n').length < rows) {
+      process.stdout.write(text);
+      return;
+    }
+
+    // The pager reads keys from the terminal - readline would echo them
+    this.rl?.close();
+    this.rl = null;
+    const paged = await showInPager(text);
+    this.setupReadline();
+
+    if (!paged) {
+      process.stdout.write(text);
+    }
+  }
+
+  /**
+   * /export [md|json|html] [path] - write the whole conversation to a file. Without a
+   * format it follows the path's extension, then Markdown.
+   */
+  private handleExport(args: string[]): void {
+    if (this.conversationHistory.length === 0) {
+      console.log(`\n${colors.dim}No conversation history yet.${colors.reset}\n`);
+      return;
+    }
+
+    const first = args[0]?.toLowerCase() ?? '';
+    const explicitFormat = isExportFormat(first) ? first : undefined;
+    const path = (explicitFormat ? args.slice(1) : args).join(' ');
+    const format: ExportFormat = explicitFormat ?? (path ? getFormatFromPath(path) : undefined) ?? 'md';
+
+    const session = this.getSessionData();
+    const target = resolve(this.cwd, path || getDefaultExportPath(session, format));
+
+    try {
+      writeFileSync(target, exportSession(session, format, tool => this.getToolDisplayName(tool)));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`${colors.red}✗${colors.reset} Could not export: ${errorMessage}`);
+      return;
+    }
+
+    const count = session.history.length;
+    console.log(`${colors.green}✓${colors.reset} Exported ${count} message${count === 1 ? '' : 's'} to ${target}`);
+  }
+
+  /**
+   * Token usage and cost of this session: per tool, in total and per forward chain
+   */
+  private showUsage(): void {
+    const total = summarizeUsage(this.conversationHistory);
+    if (total.requests === 0) {
+      console.log(`\n${colors.dim}No requests in this session yet.${colors.reset}\n`);
+      return;
+    }
+
+    const formatRow = (label: string, totals: UsageTotals) =>
+      `${label}${String(totals.requests).padStart(9)}${formatTokens(totals.inputTokens).padStart(10)}` +
+      `${formatTokens(totals.outputTokens).padStart(10)}${formatCost(totals).padStart(12)}`;
+
+    console.log(`\n${colors.bold}Usage${colors.reset}`);
+    console.log(`${colors.dim}${'─'.repeat(58)}${colors.reset}`);
+    console.log(`${colors.dim}${'Tool'.padEnd(17)}${'Requests'.padStart(9)}${'Input'.padStart(10)}${'Output'.padStart(10)}${'Cost'.padStart(12)}${colors.reset}`);
+    for (const [tool, totals] of summarizeUsageByTool(this.conversationHistory)) {
+      const name = this.getToolDisplayName(tool).padEnd(17);
+      console.log(formatRow(`${this.getToolColor(tool)}${name}${colors.reset}`, totals));
+    }
+    console.log(`${colors.dim}${'─'.repeat(58)}${colors.reset}`);
+    console.log(formatRow(`${colors.bold}${'This session'.padEnd(17)}${colors.reset}`, total));
+
+    // The most recent forward chains (prompt → forwards / debate rounds)
+    const chains = summarizeUsageByChain(this.conversationHistory).slice(-10);
+    if (chains.length > 0) {
+      console.log(`\n${colors.bold}Forward Chains${colors.reset}`);
+      console.log(`${colors.dim}${'─'.repeat(58)}${colors.reset}`);
+      for (const entry of chains) {
+        const route = entry.tools.map(tool => `${this.getToolColor(tool)}${this.getToolDisplayName(tool)}${colors.reset}`).join(' → ');
+        const prompt = entry.prompt.replace(/\s+/g, ' ');
+        const preview = prompt.length > 50 ? prompt.slice(0, 50) + '...' : prompt;
+        console.log(`${colors.dim}#${entry.chain}${colors.reset} ${route}`);
+        console.log(`   ${colors.white}${preview}${colors.reset}`);
+        console.log(`   ${colors.dim}${entry.totals.requests} requests · ${formatTokens(entry.totals.inputTokens)} in · ${formatTokens(entry.totals.outputTokens)} out · ${formatCost(entry.totals)}${colors.reset}`);
+      }
+    }
+
+    if (total.unpricedRequests > 0) {
+      console.log(`\n${colors.dim}≥ some tools don't report cost - their requests count as $0${colors.reset}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * /mode [tool] <profile> - choose what a tool may do in print mode (readonly, edit, or a
+   * profile from config). A single argument that isn't a tool name sets the active tool's mode.
+   */
+  private handleMode(args: string[]): void {
+    if (args.length === 0) {
+      console.log('');
+      for (const adapter of this.registry.getAll()) {
+        const mode = this.toolModes.get(adapter.name);
+        const label = mode
+          ? `${this.formatMode(mode)} ${colors.dim}of ${this.getToolProfiles(adapter.name).join(', ')}${colors.reset}`
+          : `${colors.dim}no permission profiles${colors.reset}`;
+        console.log(`${adapter.color}${adapter.displayName.padEnd(16)}${colors.reset} ${label}`);
+      }
+      console.log(`\n${colors.dim}Usage:${colors.reset} /mode [${this.registry.getNames().join('|')}] <profile>`);
+      console.log(`${colors.dim}For one message:${colors.reset} !edit <message>\n`);
+      return;
+    }
+
+    const named = this.registry.get(args[0].toLowerCase());
+    if (!named && args.length > 1) {
+      console.log(`${colors.red}✗${colors.reset} Unknown tool: ${args[0]}. Valid options: ${this.registry.getNames().join(', ')}`);
+      return;
+    }
+    const tool = named ? named.name : this.activeTool;
+    const profile = named ? args[1] : args[0];
+    const toolLabel = `${this.getToolColor(tool)}${this.getToolDisplayName(tool)}${colors.reset}`;
+    const profiles = this.getToolProfiles(tool);
+
+    if (profiles.length === 0) {
+      console.log(`${colors.yellow}${this.getToolDisplayName(tool)} has no permission profiles${colors.reset}`);
+      return;
+    }
+    if (!profile) {
+      console.log(`${toolLabel} is in ${this.formatMode(this.toolModes.get(tool) ?? DEFAULT_PERMISSION_PROFILE)} ${colors.dim}(profiles: ${profiles.join(', ')})${colors.reset}`);
+      return;
+    }
+    if (!profiles.includes(profile)) {
+      console.log(`${colors.red}✗${colors.reset} ${this.getToolDisplayName(tool)} has no "${profile}" profile. Valid options: ${profiles.join(', ')}`);
+      return;
+    }
+
+    this.toolModes.set(tool, profile);
+    console.log(`${colors.green}✓${colors.reset} ${toolLabel} print mode is now ${this.formatMode(profile)}`);
+  }
+
+  /**
+   * /model [tool] [name|default] - show or set the model a tool uses for the rest of this session.
+   * A single argument that isn't a tool name sets the active tool's model.
+   */
+  private handleModel(args: string[]): void {
+    if (args.length === 0) {
+      console.log('');
+      for (const adapter of this.registry.getAll()) {
+        const model = this.toolModels.get(adapter.name);
+        const label = model ? `${colors.white}${model}${colors.reset}` : `${colors.dim}default${colors.reset}`;
+        console.log(`${adapter.color}${adapter.displayName.padEnd(16)}${colors.reset} ${label}`);
+      }
+      console.log(`\n${colors.dim}Usage:${colors.reset} /model [${this.registry.getNames().join('|')}] <name|default>\n`);
+      return;
+    }
+
+    const named = this.registry.get(args[0].toLowerCase());
+    if (!named && args.length > 1) {
+      console.log(`${colors.red}✗${colors.reset} Unknown tool: ${args[0]}. Valid options: ${this.registry.getNames().join(', ')}`);
+      return;
+    }
+    const tool = named ? named.name : this.activeTool;
+    const model = named ? args[1] : args[0];
+    const toolLabel = `${this.getToolColor(tool)}${this.getToolDisplayName(tool)}${colors.reset}`;
+
+    if (!model) {
+      const current = this.toolModels.get(tool);
+      console.log(`${toolLabel} uses ${current ? `${colors.white}${current}` : `${colors.dim}its default model`}${colors.reset}`);
+      return;
+    }
+
+    if (model === 'default') {
+      this.toolModels.delete(tool);
+    } else {
+      this.toolModels.set(tool, model);
     }
 
-    console.log(`${colors.dim}${'─'.repeat(50)}${colors.reset}\n`);
+    // A running interactive session keeps its model - restart it with the new one on next /i
+    const manager = this.ptyManagers.get(tool);
+    const restarted = manager !== undefined && !manager.isDead();
+    if (restarted) {
+      manager.kill(true);
+      this.ptyManagers.delete(tool);
+    }
+
+    const description = model === 'default' ? 'its default model' : `${colors.white}${model}${colors.reset}`;
+    console.log(`${colors.green}✓${colors.reset} ${toolLabel} now uses ${description}`);
+    if (restarted) {
+      console.log(`${colors.dim}  The interactive session was stopped - /i starts it with the new model${colors.reset}`);
+    }
+  }
+
+  /**
+   * /role [tool] [text|clear] - show or set a tool's standing instructions. They are
+   * given to every session of the tool, so they outlast /clear. A first word that isn't
+   * a tool name starts the active tool's role.
+   */
+  private handleRole(args: string[]): void {
+    if (args.length === 0) {
+      console.log('');
+      for (const adapter of this.registry.getAll()) {
+        const role = this.toolRoles.get(adapter.name);
+        const label = role ? `${colors.white}${role}${colors.reset}` : `${colors.dim}none${colors.reset}`;
+        console.log(`${adapter.color}${adapter.displayName.padEnd(16)}${colors.reset} ${label}`);
+      }
+      console.log(`\n${colors.dim}Usage:${colors.reset} /role [${this.registry.getNames().join('|')}] <text|clear>\n`);
+      return;
+    }
+
+    const named = this.registry.get(args[0].toLowerCase());
+    const tool = named ? named.name : this.activeTool;
+    const role = (named ? args.slice(1) : args).join(' ').trim();
+    const toolLabel = `${this.getToolColor(tool)}${this.getToolDisplayName(tool)}${colors.reset}`;
+
+    if (!role) {
+      const current = this.toolRoles.get(tool);
+      console.log(`${toolLabel} ${current ? `role: ${colors.white}${current}` : `${colors.dim}has no role`}${colors.reset}`);
+      return;
+    }
+
+    if (role === 'clear') {
+      this.toolRoles.delete(tool);
+    } else {
+      this.toolRoles.set(tool, role);
+    }
+
+    // A running interactive session keeps its role - restart it with the new one on next /i
+    const manager = this.ptyManagers.get(tool);
+    if (manager && !manager.isDead()) {
+      manager.kill(true);
+      this.ptyManagers.delete(tool);
+    }
+
+    console.log(`${colors.green}✓${colors.reset} ${toolLabel} ${role === 'clear' ? 'has no role now' : 'has a new role'}`);
+    if (this.registry.get(tool)?.hasSession()) {
+      console.log(`${colors.dim}  Tools without a system prompt option only see it in their next session - /clear starts one${colors.reset}`);
+    }
+  }
+
+  private showSessions(): void {
+    const sessions = listSessions();
+    if (sessions.length === 0) {
+      console.log(`\n${colors.dim}No saved sessions yet.${colors.reset}\n`);
+      return;
+    }
+
+    console.log(`\n${colors.bold}Saved Sessions${colors.reset}`);
+    console.log(`${colors.dim}${'─'.repeat(50)}${colors.reset}`);
+
+    for (const session of sessions.slice(0, 20)) {
+      const current = session.id === this.sessionId ? ` ${colors.green}(current)${colors.reset}` : '';
+      const updated = new Date(session.updatedAt).toLocaleString();
+      const title = session.title.length > 60 ? session.title.slice(0, 60) + '...' : session.title;
+      console.log(`${colors.brightYellow}${session.id}${colors.reset}${current} ${colors.dim}${updated} · ${session.messageCount} messages · ${session.activeTool}${colors.reset}`);
+      console.log(`  ${colors.white}${title}${colors.reset}`);
+      console.log(`  ${colors.dim}📁 ${session.cwd}${colors.reset}`);
+    }
+
+    console.log(`${colors.dim}${'─'.repeat(50)}${colors.reset}`);
+    console.log(`${colors.dim}Reopen with ${colors.brightYellow}/sessions <id>${colors.dim} or ${colors.brightYellow}aic resume <id>${colors.reset}\n`);
+  }
+
+  /**
+   * Switch this running aic to a saved session
+   */
+  private async reopenSession(idOrPrefix: string): Promise<void> {
+    if (this.requestInProgress) {
+      console.log(`${colors.yellow}⏳ Please wait for the current request to finish${colors.reset}`);
+      return;
+    }
+
+    const session = findSession(idOrPrefix);
+    if (!session) {
+      console.log(`${colors.red}✗${colors.reset} No saved session matching "${idOrPrefix}"`);
+      return;
+    }
+    if (session.id === this.sessionId) {
+      console.log(`${colors.dim}Already in session ${session.id}${colors.reset}`);
+      return;
+    }
+
+    // Save the current session and stop its tool processes before switching
+    this.persistSession();
+    await this.cleanup();
+
+    this.restoreSession(session);
+    if (this.cwd !== session.cwd) {
+      console.log(`${colors.yellow}⚠ Session directory ${session.cwd} no longer exists - using ${this.cwd}${colors.reset}`);
+    }
+
+    const adapter = this.registry.get(this.activeTool);
+    console.log(`${colors.green}↩${colors.reset} Reopened session ${colors.brightYellow}${session.id}${colors.reset} ${colors.dim}(${this.conversationHistory.length} messages, 📁 ${this.cwd})${colors.reset}`);
+    console.log(`${colors.green}●${colors.reset} Active: ${adapter?.color || colors.white}${adapter?.displayName || this.activeTool}${colors.reset}`);
   }
 
   private async cleanup(): Promise<void> {
@@ -1560,7 +2770,10 @@ export class SDKSession {
   }
 }
 
-export async function startSDKSession(registry: AdapterRegistry): Promise<void> {
+export async function startSDKSession(registry: AdapterRegistry, resumeFrom?: SessionData): Promise<void> {
   const session = new SDKSession(registry);
+  if (resumeFrom) {
+    session.restoreSession(resumeFrom);
+  }
   await session.start();
 }
@@ -0,0 +1,168 @@
+import { vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, statSync, writeFileSync, mkdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Point the config directory at a temp home for each test
+const mockHome = vi.hoisted(() => ({ path: '' }));
+
+vi.mock('os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('os')>();
+  return {
+    ...actual,
+    homedir: vi.fn(() => mockHome.path),
+  };
+});
+
+// Import after mocks are set up
+import {
+  getSessionsDir,
+  getSessionPath,
+  createSessionId,
+  createMessageId,
+  saveSession,
+  loadSession,
+  listSessions,
+  findSession,
+  SessionData,
+} from './session-store.js';
+
+function createSession(id: string, overrides: Partial<SessionData> = {}): SessionData {
+  return {
+    id,
+    createdAt: 1000,
+    updatedAt: 2000,
+    cwd: '/projects/app',
+    activeTool: 'claude',
+    history: [
+      { tool: 'claude', role: 'user', content: `First prompt for ${id}\nsecond line` },
+      { tool: 'claude', role: 'assistant', content: 'Answer' },
+    ],
+    adapters: {
+      claude: { hasSession: true, sessionId: 'abc-123' },
+    },
+    ...overrides,
+  };
+}
+
+describe('session-store', () => {
+  beforeEach(() => {
+    mockHome.path = mkdtempSync(join(tmpdir(), 'aic-sessions-'));
+  });
+
+  afterEach(() => {
+    rmSync(mockHome.path, { recursive: true, force: true });
+  });
+
+  describe('getSessionsDir', () => {
+    it('should return sessions directory under config directory', () => {
+      expect(getSessionsDir()).toBe(join(mockHome.path, '.aic', 'sessions'));
+    });
+  });
+
+  describe('getSessionPath', () => {
+    it('should return json file path for a session ID', () => {
+      expect(getSessionPath('abc123')).toBe(join(mockHome.path, '.aic', 'sessions', 'abc123.json'));
+    });
+
+    it('should reject IDs that could escape the sessions directory', () => {
+      expect(() => getSessionPath('../config')).toThrow('Invalid session ID');
+    });
+  });
+
+  describe('createSessionId', () => {
+    it('should create short unique IDs', () => {
+      const a = createSessionId();
+      const b = createSessionId();
+      expect(a).toMatch(/^[a-f0-9]{8}$/);
+      expect(a).not.toBe(b);
+    });
+  });
+
+  describe('createMessageId', () => {
+    it('should create short unique IDs', () => {
+      expect(createMessageId()).toMatch(/^[a-f0-9]{8}$/);
+      expect(createMessageId()).not.toBe(createMessageId());
+    });
+  });
+
+  describe('saveSession / loadSession', () => {
+    it('should round-trip a session', () => {
+      const session = createSession('s1');
+
+      saveSession(session);
+
+      expect(loadSession('s1')).toEqual(session);
+    });
+
+    it('should write session files readable only by the user', () => {
+      saveSession(createSession('s1'));
+
+      const mode = statSync(getSessionPath('s1')).mode & 0o777;
+      if (process.platform !== 'win32') {
+        expect(mode).toBe(0o600);
+      }
+    });
+
+    it('should return null for missing sessions', () => {
+      expect(loadSession('missing')).toBeNull();
+    });
+
+    it('should return null for invalid IDs', () => {
+      expect(loadSession('../../etc/passwd')).toBeNull();
+    });
+
+    it('should return null for corrupt session files', () => {
+      mkdirSync(getSessionsDir(), { recursive: true });
+      writeFileSync(getSessionPath('broken'), 'not json {{{');
+
+      expect(loadSession('broken')).toBeNull();
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should return empty list when no sessions directory exists', () => {
+      expect(existsSync(getSessionsDir())).toBe(false);
+      expect(listSessions()).toEqual([]);
+    });
+
+    it('should list sessions most recent first with summaries', () => {
+      saveSession(createSession('older', { updatedAt: 100 }));
+      saveSession(createSession('newer', { updatedAt: 500 }));
+
+      const sessions = listSessions();
+
+      expect(sessions.map(s => s.id)).toEqual(['newer', 'older']);
+      expect(sessions[0].messageCount).toBe(2);
+      expect(sessions[0].title).toBe('First prompt for newer');
+      expect(sessions[0].cwd).toBe('/projects/app');
+    });
+  });
+
+  describe('findSession', () => {
+    it('should return the most recent session when no ID given', () => {
+      saveSession(createSession('older', { updatedAt: 100 }));
+      saveSession(createSession('newer', { updatedAt: 500 }));
+
+      expect(findSession()?.id).toBe('newer');
+    });
+
+    it('should return null when there are no sessions', () => {
+      expect(findSession()).toBeNull();
+    });
+
+    it('should resolve a unique ID prefix', () => {
+      saveSession(createSession('abcdef12'));
+      saveSession(createSession('12345678'));
+
+      expect(findSession('abc')?.id).toBe('abcdef12');
+    });
+
+    it('should not resolve an ambiguous prefix', () => {
+      saveSession(createSession('abc11111'));
+      saveSession(createSession('abc22222'));
+
+      expect(findSession('abc')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { getConfigDir } from './config.js';
+import type { AdapterSessionState, ToolChanges, TokenUsage, ToolCall } from './adapters/base.js';
+
+/**
+ * How a message came about: a print-mode request, a response captured from
+ * interactive mode, a forward (including debate replies) or a /both broadcast.
+ * Not to be confused with the permission profile set by /mode.
+ */
+export type MessageMode = 'print' | 'interactive' | 'forward' | 'broadcast';
+
+/**
+ * A single entry in the conversation history
+ */
+export interface Message {
+  /** Unique within the session - forwards refer to their sources by it. Missing in sessions saved by older versions. */
+  id?: string;
+  tool: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** When the message was recorded (ms since epoch) - missing in sessions saved by older versions */
+  timestamp?: number;
+  /** How the message came about - missing in sessions saved by older versions */
+  mode?: MessageMode;
+  /** For forwarded prompts: IDs of the messages whose content the prompt carried */
+  forwardedFrom?: string[];
+  /** Round number for messages exchanged during a /debate */
+  round?: number;
+  /** Files the tool changed (and committed) while producing this response */
+  changes?: ToolChanges;
+  /** Forward chain: a prompt typed by the user starts one, forwards and debate rounds continue it */
+  chain?: number;
+  /** Tokens used for this response, if the tool reports them */
+  usage?: TokenUsage;
+  /** Cost of this response in USD, if the tool reports it */
+  costUsd?: number;
+  /** Model that produced this response, if the tool reports it */
+  model?: string;
+  /** How long the request took in ms (print-mode responses only) */
+  durationMs?: number;
+  /** Tools the AI called (reading files, running commands, ...) while answering */
+  toolCalls?: ToolCall[];
+  /** Non-fatal problems the tool reported, e.g. denied permissions */
+  warnings?: string[];
+}
+
+/**
+ * Everything needed to reopen an aic session after a restart
+ */
+export interface SessionData {
+  id: string;
+  createdAt: number;  // timestamp
+  updatedAt: number;  // timestamp
+  /** Working directory the session was started in (tool sessions are per-project) */
+  cwd: string;
+  activeTool: string;
+  history: Message[];
+  /** Standing instructions (/role) per tool when the session was saved - restored on resume */
+  roles?: Record<string, string>;
+  /** Per-adapter session state, keyed by tool name */
+  adapters: {
+    [name: string]: AdapterSessionState;
+  };
+}
+
+/**
+ * Lightweight listing entry for /sessions and `aic resume`
+ */
+export interface SessionSummary {
+  id: string;
+  updatedAt: number;
+  cwd: string;
+  activeTool: string;
+  messageCount: number;
+  /** First user prompt, for recognizing the session in a list */
+  title: string;
+}
+
+// Session IDs end up in file names - keep them to a safe character set
+const SESSION_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Get the directory where sessions are stored
+ */
+export function getSessionsDir(): string {
+  return join(getConfigDir(), 'sessions');
+}
+
+/**
+ * Get the file path for a session
+ */
+export function getSessionPath(id: string): string {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid session ID "${id}"`);
+  }
+  return join(getSessionsDir(), `${id}.json`);
+}
+
+/**
+ * Generate a new short session ID
+ */
+export function createSessionId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+/**
+ * Generate an ID for a history message
+ */
+export function createMessageId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+/**
+ * Save a session to disk (overwrites any previous save with the same ID)
+ */
+export function saveSession(session: SessionData): void {
+  const dir = getSessionsDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+  writeFileSync(getSessionPath(session.id), JSON.stringify(session, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Load a session by ID. Returns null if it doesn't exist or can't be parsed.
+ */
+export function loadSession(id: string): SessionData | null {
+  let path: string;
+  try {
+    path = getSessionPath(id);
+  } catch {
+    return null;
+  }
+
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    const loaded = JSON.parse(readFileSync(path, 'utf-8')) as Partial<SessionData>;
+    if (!loaded.id || !Array.isArray(loaded.history)) {
+      return null;
+    }
+    return {
+      createdAt: 0,
+      updatedAt: 0,
+      cwd: process.cwd(),
+      activeTool: 'claude',
+      adapters: {},
+      ...loaded,
+    } as SessionData;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List saved sessions, most recently updated first
+ */
+export function listSessions(): SessionSummary[] {
+  const dir = getSessionsDir();
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+    const session = loadSession(file.slice(0, -'.json'.length));
+    if (!session) continue;
+
+    const firstPrompt = session.history.find(m => m.role === 'user');
+    summaries.push({
+      id: session.id,
+      updatedAt: session.updatedAt,
+      cwd: session.cwd,
+      activeTool: session.activeTool,
+      messageCount: session.history.length,
+      title: firstPrompt ? firstPrompt.content.split('\n')[0] : '',
+    });
+  }
+
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Resolve a session from a full ID or unique ID prefix.
+ * With no ID, returns the most recently updated session.
+ */
+export function findSession(idOrPrefix?: string): SessionData | null {
+  if (!idOrPrefix) {
+    const latest = listSessions()[0];
+    return latest ? loadSession(latest.id) : null;
+  }
+
+  const exact = loadSession(idOrPrefix);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = listSessions().filter(s => s.id.startsWith(idOrPrefix));
+  return matches.length === 1 ? loadSession(matches[0].id) : null;
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import type { Message } from './session-store.js';
+import {
+  getResultFields,
+  formatResultSummary,
+  summarizeUsage,
+  summarizeUsageByTool,
+  summarizeUsageByChain,
+  formatTokens,
+  formatCost,
+  createUsageTotals,
+} from './usage.js';
+
+function answer(tool: string, chain: number, inputTokens: number, outputTokens: number, costUsd?: number): Message {
+  return {
+    tool,
+    role: 'assistant',
+    content: 'answer',
+    chain,
+    usage: { inputTokens, outputTokens },
+    costUsd,
+    durationMs: 1000,
+  };
+}
+
+// Chain 1: prompt to claude, forwarded to gemini. Chain 2: prompt to claude.
+const HISTORY: Message[] = [
+  { tool: 'claude', role: 'user', content: 'design a cache', chain: 1 },
+  answer('claude', 1, 1000, 200, 0.01),
+  { tool: 'gemini', role: 'user', content: 'Another AI assistant ...', chain: 1 },
+  answer('gemini', 1, 1500, 300),
+  { tool: 'claude', role: 'user', content: 'now implement it', chain: 2 },
+  answer('claude', 2, 2000, 800, 0.03),
+  // Captured from interactive mode - no usage, not a request
+  { tool: 'gemini', role: 'assistant', content: 'interactive answer', chain: 3 },
+];
+
+describe('getResultFields', () => {
+  it('copies the usage details of a send result', () => {
+    expect(getResultFields({
+      text: 'hi',
+      raw: '{"result":"hi"}',
+      sessionId: 'abc',
+      usage: { inputTokens: 1, outputTokens: 2 },
+      costUsd: 0.5,
+      model: 'm',
+      durationMs: 42,
+    })).toMatchObject({ usage: { inputTokens: 1, outputTokens: 2 }, costUsd: 0.5, model: 'm', durationMs: 42 });
+  });
+
+  it('keeps tool calls and warnings only when there are some', () => {
+    const fields = getResultFields({
+      text: 'hi',
+      durationMs: 42,
+      toolCalls: [{ name: 'Read' }],
+      warnings: [],
+    });
+    expect(fields.toolCalls).toEqual([{ name: 'Read' }]);
+    expect(fields.warnings).toBeUndefined();
+  });
+});
+
+describe('formatResultSummary', () => {
+  it('lists what the tool reported', () => {
+    expect(formatResultSummary({
+      text: 'hi',
+      model: 'claude-sonnet-4',
+      usage: { inputTokens: 3200, outputTokens: 150 },
+      costUsd: 0.01234,
+      durationMs: 12_400,
+      toolCalls: [{ name: 'Read' }, { name: 'Grep' }],
+    })).toBe('claude-sonnet-4 · 3.2k in · 150 out · $0.0123 · 12.4s · 2 tool calls');
+  });
+
+  it('falls back to the duration alone', () => {
+    expect(formatResultSummary({ text: 'hi', durationMs: 800 })).toBe('0.8s');
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('totals all print-mode requests', () => {
+    expect(summarizeUsage(HISTORY)).toEqual({
+      requests: 3,
+      inputTokens: 4500,
+      outputTokens: 1300,
+      costUsd: 0.04,
+      unpricedRequests: 1,
+      durationMs: 3000,
+    });
+  });
+
+  it('is empty for an empty history', () => {
+    expect(summarizeUsage([])).toEqual(createUsageTotals());
+  });
+});
+
+describe('summarizeUsageByTool', () => {
+  it('groups requests per tool in order of first answer', () => {
+    const byTool = summarizeUsageByTool(HISTORY);
+
+    expect([...byTool.keys()]).toEqual(['claude', 'gemini']);
+    expect(byTool.get('claude')).toMatchObject({ requests: 2, inputTokens: 3000, outputTokens: 1000 });
+    expect(byTool.get('gemini')).toMatchObject({ requests: 1, unpricedRequests: 1 });
+  });
+});
+
+describe('summarizeUsageByChain', () => {
+  it('groups a prompt with the forwards that followed it', () => {
+    const chains = summarizeUsageByChain(HISTORY);
+
+    expect(chains).toHaveLength(2);
+    expect(chains[0]).toMatchObject({
+      chain: 1,
+      prompt: 'design a cache',
+      tools: ['claude', 'gemini'],
+      totals: { requests: 2, inputTokens: 2500, outputTokens: 500 },
+    });
+    expect(chains[1]).toMatchObject({ chain: 2, prompt: 'now implement it', tools: ['claude'] });
+  });
+
+  it('lists a tool once per turn in a debate', () => {
+    const debate: Message[] = [
+      { tool: 'claude', role: 'user', content: 'tabs or spaces?', chain: 1 },
+      answer('claude', 1, 10, 10),
+      answer('gemini', 1, 10, 10),
+      answer('claude', 1, 10, 10),
+    ];
+    expect(summarizeUsageByChain(debate)[0].tools).toEqual(['claude', 'gemini', 'claude']);
+  });
+
+  it('ignores messages without a chain', () => {
+    expect(summarizeUsageByChain([{ ...answer('claude', 1, 1, 1), chain: undefined }])).toEqual([]);
+  });
+});
+
+describe('formatTokens', () => {
+  it('abbreviates large counts', () => {
+    expect(formatTokens(950)).toBe('950');
+    expect(formatTokens(12_345)).toBe('12.3k');
+    expect(formatTokens(1_200_000)).toBe('1.2M');
+  });
+});
+
+describe('formatCost', () => {
+  it('shows the cost with precision that fits the amount', () => {
+    expect(formatCost({ ...createUsageTotals(), requests: 1, costUsd: 0.01234 })).toBe('$0.0123');
+    expect(formatCost({ ...createUsageTotals(), requests: 1, costUsd: 12.5 })).toBe('$12.50');
+  });
+
+  it('marks totals that are missing some costs', () => {
+    expect(formatCost({ ...createUsageTotals(), requests: 2, costUsd: 0.5, unpricedRequests: 1 })).toBe('≥$0.5000');
+  });
+
+  it('shows a dash when no request reported a cost', () => {
+    expect(formatCost({ ...createUsageTotals(), requests: 2, unpricedRequests: 2 })).toBe('-');
+  });
+});
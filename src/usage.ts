@@ -0,0 +1,164 @@
+import type { SendResult } from './adapters/base.js';
+import type { Message } from './session-store.js';
+
+/**
+ * Summed usage of a group of requests (a tool, a forward chain, a session)
+ */
+export interface UsageTotals {
+  /** Print-mode requests (interactive mode reports no usage) */
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Sum of the costs tools reported */
+  costUsd: number;
+  /** Requests whose tool didn't report a cost - costUsd is a lower bound if this is > 0 */
+  unpricedRequests: number;
+  durationMs: number;
+}
+
+/**
+ * Usage of one forward chain: a prompt and every forward or debate round that followed it
+ */
+export interface ChainUsage {
+  chain: number;
+  /** The prompt that started the chain */
+  prompt: string;
+  /** Tools that answered, in order */
+  tools: string[];
+  totals: UsageTotals;
+}
+
+/**
+ * The fields of a send result worth keeping on the assistant message. The raw
+ * output and session ID stay with the adapter.
+ */
+export function getResultFields(
+  result: SendResult,
+): Pick<Message, 'usage' | 'costUsd' | 'model' | 'durationMs' | 'toolCalls' | 'warnings'> {
+  return {
+    usage: result.usage,
+    costUsd: result.costUsd,
+    model: result.model,
+    durationMs: result.durationMs,
+    toolCalls: result.toolCalls?.length ? result.toolCalls : undefined,
+    warnings: result.warnings?.length ? result.warnings : undefined,
+  };
+}
+
+/**
+ * One-line summary of a response: model · 3.2k in · 150 out · $0.0123 · 12.4s · 2 tool calls.
+ * Details a tool didn't report are left out.
+ */
+export function formatResultSummary(result: SendResult): string {
+  const parts: string[] = [];
+  if (result.model) parts.push(result.model);
+  if (result.usage) {
+    parts.push(`${formatTokens(result.usage.inputTokens)} in`, `${formatTokens(result.usage.outputTokens)} out`);
+  }
+  if (result.costUsd !== undefined) {
+    parts.push(formatCost({ ...createUsageTotals(), requests: 1, costUsd: result.costUsd }));
+  }
+  parts.push(`${(result.durationMs / 1000).toFixed(1)}s`);
+  const calls = result.toolCalls?.length ?? 0;
+  if (calls > 0) parts.push(`${calls} tool call${calls === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+}
+
+export function createUsageTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedRequests: 0, durationMs: 0 };
+}
+
+/**
+ * Whether a message is the answer to a print-mode request (as opposed to a prompt
+ * or a response captured from interactive mode)
+ */
+function isRequest(message: Message): boolean {
+  return message.role === 'assistant' && message.durationMs !== undefined;
+}
+
+function addMessage(totals: UsageTotals, message: Message): void {
+  totals.requests++;
+  totals.inputTokens += message.usage?.inputTokens ?? 0;
+  totals.outputTokens += message.usage?.outputTokens ?? 0;
+  totals.durationMs += message.durationMs ?? 0;
+  if (message.costUsd !== undefined) {
+    totals.costUsd += message.costUsd;
+  } else {
+    totals.unpricedRequests++;
+  }
+}
+
+/**
+ * Total usage of all requests in the history
+ */
+export function summarizeUsage(history: Message[]): UsageTotals {
+  const totals = createUsageTotals();
+  for (const message of history) {
+    if (isRequest(message)) addMessage(totals, message);
+  }
+  return totals;
+}
+
+/**
+ * Usage per tool, in the order tools first answered
+ */
+export function summarizeUsageByTool(history: Message[]): Map<string, UsageTotals> {
+  const byTool = new Map<string, UsageTotals>();
+  for (const message of history) {
+    if (!isRequest(message)) continue;
+    let totals = byTool.get(message.tool);
+    if (!totals) {
+      totals = createUsageTotals();
+      byTool.set(message.tool, totals);
+    }
+    addMessage(totals, message);
+  }
+  return byTool;
+}
+
+/**
+ * Usage per forward chain, oldest first. Chains without requests are left out.
+ */
+export function summarizeUsageByChain(history: Message[]): ChainUsage[] {
+  const chains = new Map<number, ChainUsage>();
+
+  for (const message of history) {
+    if (message.chain === undefined) continue;
+
+    let entry = chains.get(message.chain);
+    if (!entry) {
+      entry = { chain: message.chain, prompt: '', tools: [], totals: createUsageTotals() };
+      chains.set(message.chain, entry);
+    }
+
+    if (message.role === 'user' && !entry.prompt) {
+      entry.prompt = message.content;
+    }
+    if (isRequest(message)) {
+      addMessage(entry.totals, message);
+      if (entry.tools[entry.tools.length - 1] !== message.tool) {
+        entry.tools.push(message.tool);
+      }
+    }
+  }
+
+  return [...chains.values()].filter(entry => entry.totals.requests > 0);
+}
+
+/**
+ * Short token count: 950, 12.3k, 1.2M
+ */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+/**
+ * Cost in dollars - "-" if no request reported one, "≥" if some didn't
+ */
+export function formatCost(totals: UsageTotals): string {
+  if (totals.unpricedRequests === totals.requests) return '-';
+  const amount = totals.costUsd < 1 ? totals.costUsd.toFixed(4) : totals.costUsd.toFixed(2);
+  return totals.unpricedRequests > 0 ? `≥$${amount}` : `$${amount}`;
+}
@@ -1,4 +1,24 @@
-import { stripAnsi, truncate, formatResponse } from './utils.js';
+import { Readable } from 'stream';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  stripAnsi,
+  truncate,
+  formatResponse,
+  readStream,
+  wrapText,
+  runCommand,
+  CommandCancelledError,
+  createLineReader,
+  shouldSendViaStdin,
+  STDIN_PROMPT_THRESHOLD,
+  prependRole,
+  withPromptFile,
+  getGitBranch,
+  showInPager,
+} from './utils.js';
 
 describe('stripAnsi', () => {
   it('should return plain text unchanged', () => {
@@ -36,6 +56,212 @@ describe('stripAnsi', () => {
   });
 });
 
+describe('readStream', () => {
+  it('should concatenate all chunks', async () => {
+    const stream = Readable.from(['Hello ', Buffer.from('World')]);
+    expect(await readStream(stream)).toBe('Hello World');
+  });
+
+  it('should return empty string for empty stream', async () => {
+    expect(await readStream(Readable.from([]))).toBe('');
+  });
+
+  it('should keep multibyte characters split across chunks', async () => {
+    const bytes = Buffer.from('Grüße → 日本', 'utf8');
+    const chunks = [...bytes].map(byte => Buffer.from([byte]));
+    expect(await readStream(Readable.from(chunks))).toBe('Grüße → 日本');
+  });
+});
+
+describe('shouldSendViaStdin', () => {
+  it('should keep prompts up to the threshold on the command line', () => {
+    expect(shouldSendViaStdin('hello')).toBe(false);
+    expect(shouldSendViaStdin('a'.repeat(STDIN_PROMPT_THRESHOLD))).toBe(false);
+    expect(shouldSendViaStdin('a'.repeat(STDIN_PROMPT_THRESHOLD + 1))).toBe(true);
+  });
+
+  it('should measure the prompt in bytes', () => {
+    // 3 bytes per character in UTF-8
+    expect(shouldSendViaStdin('€'.repeat(STDIN_PROMPT_THRESHOLD / 2))).toBe(true);
+  });
+});
+
+describe('prependRole', () => {
+  it('should put the role in front of the prompt', () => {
+    expect(prependRole('design a cache', 'You are the architect.')).toBe('You are the architect.\n\ndesign a cache');
+  });
+
+  it('should leave the prompt alone without a role', () => {
+    expect(prependRole('design a cache')).toBe('design a cache');
+  });
+});
+
+describe('withPromptFile', () => {
+  it('should hand the prompt over in a file that is removed afterwards', async () => {
+    let path = '';
+    const content = await withPromptFile('design a cache', async file => {
+      path = file;
+      return readFileSync(file, 'utf8');
+    });
+
+    expect(content).toBe('design a cache');
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it('should remove the file when the command fails', async () => {
+    let path = '';
+    await expect(withPromptFile('design a cache', async file => {
+      path = file;
+      throw new Error('aider exited');
+    })).rejects.toThrow('aider exited');
+
+    expect(existsSync(path)).toBe(false);
+  });
+});
+
+describe('runCommand', () => {
+  // A child that outlives every test unless it is killed
+  const HANG = ['-e', 'setTimeout(() => {}, 30000)'];
+
+  it('should return output and exit code', async () => {
+    const result = await runCommand('node', ['-e', 'process.stdout.write("hi"); process.exit(3)']);
+    expect(result).toEqual({ stdout: 'hi', stderr: '', exitCode: 3 });
+  });
+
+  it('should pass stdout to onStdout as it arrives', async () => {
+    const chunks: string[] = [];
+    const result = await runCommand('node', ['-e', 'console.log("one"); setTimeout(() => console.log("two"), 50)'], {
+      onStdout: data => chunks.push(data),
+    });
+    expect(chunks.join('')).toBe(result.stdout);
+    expect(result.stdout).toBe('one\ntwo\n');
+  });
+
+  it('should write input to stdin and close it', async () => {
+    const input = 'x'.repeat(1024 * 1024);
+    const countStdin = 'let n = 0; process.stdin.on("data", c => n += c.length).on("end", () => process.stdout.write(String(n)))';
+    const result = await runCommand('node', ['-e', countStdin], { input });
+    expect(result.stdout).toBe(String(input.length));
+  });
+
+  it('should give the command no stdin without input', async () => {
+    const readStdin = 'let d = ""; process.stdin.on("data", c => d += c).on("end", () => process.stdout.write(`[${d}]`))';
+    const result = await runCommand('node', ['-e', readStdin]);
+    expect(result.stdout).toBe('[]');
+  });
+
+  it('should not fail when the command exits without reading its input', async () => {
+    const result = await runCommand('node', ['-e', 'process.exit(0)'], { input: 'y'.repeat(1024 * 1024) });
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should kill the process when the timeout expires', async () => {
+    const error = await runCommand('node', HANG, { timeout: 200 }).catch(e => e);
+    expect(error).toBeInstanceOf(CommandCancelledError);
+    expect(error.reason).toBe('timeout');
+    expect(error.message).toContain('timed out');
+  });
+
+  it('should kill the process when the signal aborts', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const error = await runCommand('node', HANG, { signal: controller.signal }).catch(e => e);
+    expect(error).toBeInstanceOf(CommandCancelledError);
+    expect(error.reason).toBe('aborted');
+  });
+
+  it('should not start when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(runCommand('node', HANG, { signal: controller.signal })).rejects.toThrow('was cancelled');
+  });
+
+  it('should escalate to SIGKILL when SIGTERM is ignored', async () => {
+    const stubborn = ['-e', 'process.on("SIGTERM", () => {}); console.log("ready"); setTimeout(() => {}, 30000)'];
+    const start = Date.now();
+    const error = await runCommand('node', stubborn, { timeout: 500, killGracePeriod: 200 }).catch(e => e);
+    expect(error).toBeInstanceOf(CommandCancelledError);
+    expect(Date.now() - start).toBeLessThan(10000);
+  });
+});
+
+describe('getGitBranch', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'aic-git-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read the branch of a git repository', async () => {
+    execFileSync('git', ['init', '--quiet'], { cwd: dir });
+    execFileSync('git', ['symbolic-ref', 'HEAD', 'refs/heads/feature/cache'], { cwd: dir });
+
+    expect(await getGitBranch(dir)).toBe('feature/cache');
+  });
+
+  it('should return null outside a git repository', async () => {
+    expect(await getGitBranch(dir)).toBeNull();
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('showInPager', () => {
+  const originalPager = process.env.PAGER;
+
+  afterEach(() => {
+    if (originalPager === undefined) {
+      delete process.env.PAGER;
+    } else {
+      process.env.PAGER = originalPager;
+    }
+  });
+
+  it('should pipe the text to $PAGER', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'aic-pager-'));
+    const file = join(dir, 'paged.txt');
+    process.env.PAGER = `cat > "${file}"`;
+
+    try {
+      expect(await showInPager('long output\n')).toBe(true);
+      expect(readFileSync(file, 'utf8')).toBe('long output\n');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report a pager that is not installed', async () => {
+    process.env.PAGER = 'aic-no-such-pager';
+    expect(await showInPager('text')).toBe(false);
+  });
+});
+
+describe('createLineReader', () => {
+  it('should emit complete lines across chunks', () => {
+    const lines: string[] = [];
+    const reader = createLineReader(line => lines.push(line));
+
+    reader.push('{"a":');
+    reader.push('1}\n{"b"');
+    expect(lines).toEqual(['{"a":1}']);
+
+    reader.push(':2}\n');
+    expect(lines).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it('should emit the unfinished last line on flush', () => {
+    const lines: string[] = [];
+    const reader = createLineReader(line => lines.push(line));
+
+    reader.push('one\ntwo');
+    reader.flush();
+    reader.flush();
+    expect(lines).toEqual(['one', 'two']);
+  });
+});
+
 describe('truncate', () => {
   it('should return short text unchanged', () => {
     expect(truncate('Hello', 10)).toBe('Hello');
@@ -66,6 +292,27 @@ describe('truncate', () => {
   });
 });
 
+describe('wrapText', () => {
+  it('should leave short lines unchanged', () => {
+    expect(wrapText('Hello\n\nWorld', 10)).toEqual(['Hello', '', 'World']);
+  });
+
+  it('should wrap long lines at word boundaries', () => {
+    expect(wrapText('the quick brown fox jumps', 10)).toEqual(['the quick', 'brown fox', 'jumps']);
+  });
+
+  it('should split words longer than the width', () => {
+    expect(wrapText('abcdefghijkl xy', 5)).toEqual(['abcde', 'fghij', 'kl xy']);
+  });
+
+  it('should never return lines longer than the width', () => {
+    const lines = wrapText('Lorem ipsum dolor sit amet, consectetur adipiscing elit\tsed do', 12);
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(12);
+    }
+  });
+});
+
 describe('formatResponse', () => {
   it('should format response with tool name and separators', () => {
     const result = formatResponse('claude', 'Test response');
@@ -1,4 +1,5 @@
 import { spawn, SpawnOptions } from 'child_process';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
 import * as pty from 'node-pty';
 
 export interface RunResult {
@@ -7,25 +8,126 @@ export interface RunResult {
   exitCode: number;
 }
 
+// Time a command gets to exit after SIGTERM before it is killed with SIGKILL
+const KILL_GRACE_PERIOD_MS = 3000;
+
+export interface RunCommandOptions extends Omit<SpawnOptions, 'timeout' | 'signal'> {
+  /** Kill the command if it runs longer than this many ms */
+  timeout?: number;
+  /** Kill the command when this signal is aborted */
+  signal?: AbortSignal;
+  /** Time between SIGTERM and SIGKILL in ms (default 3000) */
+  killGracePeriod?: number;
+  /** Called with each piece of stdout as it arrives (the full output is still returned) */
+  onStdout?: (data: string) => void;
+  /** Written to the command's stdin, which is then closed (default: no stdin) */
+  input?: string;
+}
+
+// Prompts longer than this (in bytes) go over stdin: argv has OS size limits and
+// shows up in `ps` output for other users
+export const STDIN_PROMPT_THRESHOLD = 8 * 1024;
+
+/**
+ * Whether a prompt is too large to pass as a command-line argument
+ */
+export function shouldSendViaStdin(prompt: string): boolean {
+  return Buffer.byteLength(prompt, 'utf8') > STDIN_PROMPT_THRESHOLD;
+}
+
 /**
- * Run a command and capture its output (non-interactive)
+ * Put a tool's role in front of a prompt - for tools without a system prompt option,
+ * on the first turn of a session
+ */
+export function prependRole(prompt: string, role?: string): string {
+  return role ? `${role}\n\n${prompt}` : prompt;
+}
+
+/**
+ * Run a command with a prompt in a temporary file, for tools that read large prompts
+ * from a file rather than stdin. The file is readable by the user only and removed
+ * afterwards.
+ */
+export async function withPromptFile<T>(prompt: string, run: (path: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'aic-prompt-'));
+  try {
+    const path = join(dir, 'prompt.md');
+    await writeFile(path, prompt, { mode: 0o600 });
+    return await run(path);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Error for a command that was killed because it timed out or was cancelled
+ */
+export class CommandCancelledError extends Error {
+  constructor(message: string, readonly reason: 'timeout' | 'aborted') {
+    super(message);
+    this.name = 'CommandCancelledError';
+  }
+}
+
+/**
+ * Run a command and capture its output (non-interactive).
+ * On timeout or abort the command gets SIGTERM, then SIGKILL if it doesn't exit,
+ * and the promise rejects with CommandCancelledError.
  */
 export async function runCommand(
   command: string,
   args: string[],
-  options: SpawnOptions = {}
+  options: RunCommandOptions = {}
 ): Promise<RunResult> {
+  const { timeout, signal, killGracePeriod = KILL_GRACE_PERIOD_MS, onStdout, input, ...spawnOptions } = options;
+
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CommandCancelledError(`${command} was cancelled`, 'aborted'));
+      return;
+    }
+
     const proc = spawn(command, args, {
-      ...options,
-      stdio: ['ignore', 'pipe', 'pipe'], // ignore stdin - we're not sending input
+      ...spawnOptions,
+      // No stdin unless there's input - tools that wait for it would hang otherwise
+      stdio: [input !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe'],
     });
+
+    if (input !== undefined && proc.stdin) {
+      // A tool that exits without reading everything closes the pipe (EPIPE) - its exit code tells the story
+      proc.stdin.on('error', () => {});
+      proc.stdin.end(input);
+    }
     
     let stdout = '';
     let stderr = '';
+    let cancelled: CommandCancelledError | null = null;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const terminate = (error: CommandCancelledError) => {
+      if (cancelled) return;
+      cancelled = error;
+      proc.kill('SIGTERM');
+      // Escalate if the tool ignores SIGTERM
+      killTimer = setTimeout(() => proc.kill('SIGKILL'), killGracePeriod);
+    };
+
+    const timeoutTimer = timeout
+      ? setTimeout(() => terminate(new CommandCancelledError(`${command} timed out after ${timeout / 1000}s`, 'timeout')), timeout)
+      : undefined;
+    const onAbort = () => terminate(new CommandCancelledError(`${command} was cancelled`, 'aborted'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      signal?.removeEventListener('abort', onAbort);
+    };
     
-    proc.stdout?.on('data', (data) => {
-      stdout += data.toString();
+    proc.stdout?.setEncoding('utf8'); // Don't split multi-byte characters between chunks
+    proc.stdout?.on('data', (data: string) => {
+      stdout += data;
+      onStdout?.(data);
     });
     
     proc.stderr?.on('data', (data) => {
@@ -33,10 +135,16 @@ export async function runCommand(
     });
     
     proc.on('error', (err) => {
+      cleanup();
       reject(err);
     });
     
     proc.on('close', (code) => {
+      cleanup();
+      if (cancelled) {
+        reject(cancelled);
+        return;
+      }
       resolve({
         stdout,
         stderr,
@@ -46,6 +154,30 @@ export async function runCommand(
   });
 }
 
+/**
+ * Split streamed output into lines, holding back an incomplete last line until
+ * the rest arrives. Call flush() at the end to emit whatever is left.
+ */
+export function createLineReader(onLine: (line: string) => void): { push(data: string): void; flush(): void } {
+  let pending = '';
+  return {
+    push(data: string) {
+      pending += data;
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+      for (const line of lines) {
+        onLine(line);
+      }
+    },
+    flush() {
+      if (pending) {
+        onLine(pending);
+        pending = '';
+      }
+    },
+  };
+}
+
 export interface PtyRunResult {
   output: string;
   exitCode: number;
@@ -142,7 +274,7 @@ export async function runCommandPty(
 
 import { existsSync } from 'fs';
 import { join } from 'path';
-import { homedir } from 'os';
+import { homedir, tmpdir } from 'os';
 
 /**
  * Check if a command exists in PATH
@@ -220,6 +352,18 @@ export function stripAnsi(str: string): string {
   return str.replace(/\x1B(?:[@-Z\\-_]|\[[0-?]*[ -/]*[@-~])/g, '');
 }
 
+/**
+ * Read a stream to the end as UTF-8 text (e.g., a prompt piped to stdin)
+ */
+export async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  // Decode once at the end - a multibyte character can be split across chunks
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
 /**
  * Truncate text to a maximum length with ellipsis
  */
@@ -228,6 +372,46 @@ export function truncate(text: string, maxLength: number): string {
   return text.slice(0, maxLength - 3) + '...';
 }
 
+/**
+ * Word-wrap plain text to a fixed width (for column layouts).
+ * Existing line breaks are kept; words longer than the width are split.
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\t/g, '  ').split('\n')) {
+    if (paragraph.length <= width) {
+      lines.push(paragraph);
+      continue;
+    }
+
+    let current = '';
+    for (let word of paragraph.split(' ')) {
+      // Hard-break words that can't fit on any line
+      while (word.length > width) {
+        if (current) {
+          lines.push(current);
+          current = '';
+        }
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+      }
+
+      if (!current) {
+        current = word;
+      } else if (current.length + 1 + word.length <= width) {
+        current += ' ' + word;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
 /**
  * Format a tool response for display
  */
@@ -236,6 +420,48 @@ export function formatResponse(toolName: string, response: string): string {
   return `\n${separator}\n[${toolName}]\n${separator}\n${response}\n${separator}\n`;
 }
 
+/**
+ * Show text through the user's pager ($PAGER, or less). Resolves false if no pager
+ * could be started, so the caller can print the text itself.
+ */
+export function showInPager(text: string): Promise<boolean> {
+  const pager = process.env.PAGER || (process.platform === 'win32' ? '' : 'less');
+  if (!pager) return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    // $PAGER may carry arguments ("less -S") - let the shell split them.
+    // Like git, default less to keeping colors and quitting when the text fits the screen
+    const proc = spawn(pager, {
+      shell: true,
+      stdio: ['pipe', 'inherit', 'inherit'],
+      env: { ...process.env, LESS: process.env.LESS ?? 'FRX' },
+    });
+    proc.on('error', () => resolve(false));
+    // 127: the shell couldn't find the pager
+    proc.on('close', (code) => resolve(code !== 127));
+    // Quitting the pager early closes the pipe - not an error
+    proc.stdin?.on('error', () => {});
+    proc.stdin?.end(text);
+  });
+}
+
+// Reading the branch is instant - don't let a stuck git hold up a forward
+const GIT_BRANCH_TIMEOUT_MS = 5000;
+
+/**
+ * Current git branch of a directory, or null outside a git repository (or on a detached HEAD)
+ */
+export async function getGitBranch(cwd: string): Promise<string | null> {
+  try {
+    // symbolic-ref also works before the first commit, and fails on a detached HEAD
+    const result = await runCommand('git', ['symbolic-ref', '--short', 'HEAD'], { cwd, timeout: GIT_BRANCH_TIMEOUT_MS });
+    const branch = result.stdout.trim();
+    return result.exitCode === 0 && branch ? branch : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get the version of a CLI tool asynchronously
  * Uses runCommand to avoid blocking the main thread